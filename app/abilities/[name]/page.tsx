@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { PokemonGrid } from '../../components/PokemonGrid';
+import { TopNav } from '../../components/TopNav';
+import { formatName, groupFlavorText } from '../../lib/format';
+import { getAbility } from '../../lib/pokeapi';
+import type { AbilityData } from '../../lib/types';
+
+export default function AbilityDetail({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  const [ability, setAbility] = useState<AbilityData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchAbility() {
+      try {
+        setLoading(true);
+        const data = await getAbility(name);
+        if (!cancelled) {
+          setAbility(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load ability');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchAbility();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const englishEffect = ability?.effect_entries.find((e) => e.language.name === 'en');
+  const englishFlavorTexts = (ability?.flavor_text_entries ?? []).filter((f) => f.language.name === 'en');
+  const flavorByVersionGroup = groupFlavorText(englishFlavorTexts, (entry) => entry.version_group.name);
+  const versionGroups = Object.keys(flavorByVersionGroup).sort((a, b) => a.localeCompare(b));
+  const regular = (ability?.pokemon ?? []).filter((p) => !p.is_hidden).map((p) => p.pokemon);
+  const hidden = (ability?.pokemon ?? []).filter((p) => p.is_hidden).map((p) => p.pokemon);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="abilities" />
+
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading ability…</div>
+          ) : error || !ability ? (
+            <div className="flex flex-col items-center justify-center gap-4">
+              <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Ability not found'}</span>
+              <Link
+                href="/abilities"
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                Back to Abilities
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">{formatName(ability.name)}</h1>
+                <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{ability.id}</span>
+                <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Introduced in {formatName(ability.generation.name)}
+                  {!ability.is_main_series && ' · Not in the main series'}
+                </div>
+              </div>
+
+              {englishEffect && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Effect</h2>
+                  <p className="text-gray-800 dark:text-gray-200 font-medium mb-2">{englishEffect.short_effect}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{englishEffect.effect}</p>
+                </div>
+              )}
+
+              {versionGroups.length > 0 && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Flavor Text (by game/version)
+                  </h2>
+                  <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+                    {versionGroups.map((vg) => (
+                      <div key={vg} className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                        <div className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                          {formatName(vg)}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          {flavorByVersionGroup[vg].map((txt, idx) => (
+                            <div key={`${vg}-${idx}`} className="text-sm text-gray-800 dark:text-gray-200">
+                              {txt}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {regular.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Pokemon with this ability ({regular.length})
+                  </h2>
+                  <PokemonGrid pokemon={regular} />
+                </div>
+              )}
+
+              {hidden.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Pokemon with this as a hidden ability ({hidden.length})
+                  </h2>
+                  <PokemonGrid pokemon={hidden} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
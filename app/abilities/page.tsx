@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RetryFailed } from '../components/RetryFailed';
+import { TopNav } from '../components/TopNav';
+import { formatName } from '../lib/format';
+import { fetchIndex } from '../lib/summaries';
+import type { AbilitySummary } from '../lib/types';
+
+export default function AbilitiesListPage() {
+  const [abilities, setAbilities] = useState<AbilitySummary[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAbilities() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await fetchIndex('abilities');
+        if (cancelled) return;
+
+        setAbilities(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
+        setLoading(false);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load abilities');
+        setLoading(false);
+      }
+    }
+
+    loadAbilities();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('abilities', { retryFailed: true });
+      setAbilities(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  const filtered = abilities.filter((ability) => {
+    if (!searchTerm) return true;
+    const s = searchTerm.toLowerCase();
+    const effect = ability.shortEffect?.toLowerCase() ?? '';
+    return ability.name.toLowerCase().includes(s) || effect.includes(s);
+  });
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="abilities" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl">
+          <input
+            type="text"
+            placeholder="Search abilities by name or effect..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+        </div>
+
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+          {error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Showing {filtered.length} / {total || '...'}
+                </span>
+                {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
+              </div>
+
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {filtered.map((ability) => (
+                  <li key={ability.id}>
+                    <Link
+                      href={`/abilities/${ability.name}`}
+                      className="flex flex-col gap-1 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-800 dark:text-gray-200">{formatName(ability.name)}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{formatName(ability.generation)}</span>
+                      </div>
+                      {ability.shortEffect && (
+                        <span className="text-sm text-gray-600 dark:text-gray-400">{ability.shortEffect}</span>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+
+              {abilities.length === 0 && loading && (
+                <div className="text-center text-gray-600 dark:text-gray-400 mt-6">Loading abilities…</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,12 @@ export default function About() {
           >
             Back to Full Pokemon List
           </Link>
+          <Link
+            href="/cache"
+            className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+          >
+            Manage offline cache
+          </Link>
         </div>
       </div>
     </div>
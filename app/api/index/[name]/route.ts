@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getCachedIndex, INDEX_NAMES, type IndexName } from '../../../lib/summaries';
+
+// Built lazily on first request and cached in memory, never at build time.
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  if (!INDEX_NAMES.includes(name as IndexName)) {
+    return NextResponse.json({ error: `Unknown index: ${name}` }, { status: 404 });
+  }
+
+  try {
+    const retryFailed = request.nextUrl.searchParams.get('retry') === 'failed';
+    const index = await getCachedIndex(name as IndexName, { retryFailed });
+    return NextResponse.json(index, {
+      headers: {
+        // Don't let shared caches hold on to an incomplete index.
+        'Cache-Control':
+          index.failed.length > 0 ? 'no-store' : 'public, s-maxage=86400, stale-while-revalidate=3600',
+      },
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : `Failed to build ${name} index` },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { TopNav } from '../../components/TopNav';
+import { TypeBadge } from '../../components/TypeBadge';
+import { formatName } from '../../lib/format';
+import { getBerry, getItemSpriteUrl } from '../../lib/pokeapi';
+import type { BerryData } from '../../lib/types';
+
+// The strongest flavor any berry has
+const MAX_POTENCY = 40;
+
+export default function BerryDetail({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  const [berry, setBerry] = useState<BerryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchBerry() {
+      try {
+        setLoading(true);
+        const data = await getBerry(name);
+        if (!cancelled) {
+          setBerry(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load berry');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchBerry();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const facts = berry
+    ? [
+        { label: 'Growth Time', value: `${berry.growth_time} h per stage` },
+        { label: 'Max Harvest', value: berry.max_harvest },
+        { label: 'Size', value: `${(berry.size / 10).toFixed(1)} cm` },
+        { label: 'Smoothness', value: berry.smoothness },
+        { label: 'Soil Dryness', value: berry.soil_dryness },
+        { label: 'Firmness', value: formatName(berry.firmness.name) },
+      ]
+    : [];
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="berries" />
+
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading berry…</div>
+          ) : error || !berry ? (
+            <div className="flex flex-col items-center justify-center gap-4">
+              <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Berry not found'}</span>
+              <Link
+                href="/berries"
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                Back to Berries
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div className="flex items-center gap-4">
+                <img src={getItemSpriteUrl(berry.item.name)} alt={berry.name} className="w-16 h-16 object-contain" />
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">
+                    {formatName(berry.name)} Berry
+                  </h1>
+                  <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{berry.id}</span>
+                  <div className="text-sm mt-1">
+                    <Link
+                      href={`/items/${berry.item.name}`}
+                      className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                    >
+                      Item page
+                    </Link>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {facts.map((fact) => (
+                  <div key={fact.label}>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{fact.label}</span>
+                    <p className="text-lg text-gray-800 dark:text-gray-200">{fact.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Natural Gift</h2>
+                <div className="flex items-center gap-3">
+                  <TypeBadge type={berry.natural_gift_type.name} />
+                  <span className="text-gray-800 dark:text-gray-200">Power {berry.natural_gift_power}</span>
+                </div>
+              </div>
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Flavors</h2>
+                <div className="flex flex-col gap-2">
+                  {berry.flavors.map((f) => (
+                    <div key={f.flavor.name} className="flex items-center gap-4">
+                      <span className="w-24 text-sm text-gray-700 dark:text-gray-300">{formatName(f.flavor.name)}:</span>
+                      <div className="flex-1 bg-zinc-200 dark:bg-zinc-800 rounded-full h-4 overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 dark:bg-blue-600 rounded-full transition-all"
+                          style={{ width: `${Math.min((f.potency / MAX_POTENCY) * 100, 100)}%` }}
+                        />
+                      </div>
+                      <span className="w-12 text-sm text-gray-800 dark:text-gray-200 text-right">{f.potency}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RetryFailed } from '../components/RetryFailed';
+import { TopNav } from '../components/TopNav';
+import { formatName, getTypeColor } from '../lib/format';
+import { getItemSpriteUrl } from '../lib/pokeapi';
+import { fetchIndex } from '../lib/summaries';
+import type { BerrySummary } from '../lib/types';
+
+const selectClass =
+  'p-2 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+export default function BerriesListPage() {
+  const [berries, setBerries] = useState<BerrySummary[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [flavor, setFlavor] = useState('');
+  const [giftType, setGiftType] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadBerries() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await fetchIndex('berries');
+        if (cancelled) return;
+
+        setBerries(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
+        setLoading(false);
+      } catch (e) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : 'Failed to load berries');
+          setLoading(false);
+        }
+      }
+    }
+
+    loadBerries();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('berries', { retryFailed: true });
+      setBerries(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  const flavors = [...new Set(berries.flatMap((b) => Object.keys(b.flavors)))].sort((a, b) => a.localeCompare(b));
+  const giftTypes = [...new Set(berries.map((b) => b.naturalGiftType))].sort((a, b) => a.localeCompare(b));
+
+  const filtered = berries.filter((berry) => {
+    if (flavor && !(berry.flavors[flavor] > 0)) return false;
+    if (giftType && berry.naturalGiftType !== giftType) return false;
+    return !searchTerm || berry.name.toLowerCase().includes(searchTerm.toLowerCase());
+  });
+  // With a flavor picked, the strongest berries for it come first
+  if (flavor) filtered.sort((a, b) => b.flavors[flavor] - a.flavors[flavor] || a.id - b.id);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="berries" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            placeholder="Search berries..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1 min-w-0 p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <select aria-label="Flavor" value={flavor} onChange={(e) => setFlavor(e.target.value)} className={selectClass}>
+            <option value="">All flavors</option>
+            {flavors.map((f) => (
+              <option key={f} value={f}>
+                {formatName(f)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Natural Gift type"
+            value={giftType}
+            onChange={(e) => setGiftType(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All Natural Gift types</option>
+            {giftTypes.map((t) => (
+              <option key={t} value={t}>
+                {formatName(t)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+          {error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Showing {filtered.length} / {total || '...'}
+                </span>
+                {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
+              </div>
+
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {filtered.map((berry) => (
+                  <li key={berry.id}>
+                    <Link
+                      href={`/berries/${berry.name}`}
+                      className="flex items-start gap-3 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                    >
+                      <img src={getItemSpriteUrl(berry.item)} alt={berry.name} className="w-8 h-8 object-contain flex-shrink-0" />
+                      <div className="flex-1 flex flex-col gap-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-800 dark:text-gray-200">{formatName(berry.name)}</span>
+                          <span
+                            className="px-2 py-0.5 rounded text-xs text-white font-medium"
+                            style={{ backgroundColor: getTypeColor(berry.naturalGiftType) }}
+                          >
+                            {formatName(berry.naturalGiftType)} {berry.naturalGiftPower}
+                          </span>
+                        </div>
+                        <span className="text-sm text-gray-600 dark:text-gray-400">
+                          {Object.entries(berry.flavors)
+                            .filter(([, potency]) => potency > 0)
+                            .map(([name, potency]) => `${formatName(name)} ${potency}`)
+                            .join(' · ') || 'No flavor'}
+                        </span>
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+
+              {berries.length === 0 && loading && (
+                <div className="text-center text-gray-600 dark:text-gray-400 mt-6">Loading berries…</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { TopNav } from '../components/TopNav';
+import { CACHE_TTL_MS, clearCache, deleteCacheKeys, listCacheKeys, type CacheKeyInfo } from '../lib/cache';
+import { POKEAPI_BASE_URL } from '../lib/pokeapi';
+
+interface ResourceGroup {
+  name: string;
+  keys: CacheKeyInfo[];
+  stale: number;
+}
+
+function groupName(key: string): string {
+  if (key.startsWith('/api/index/')) return `index: ${key.slice('/api/index/'.length).split('?')[0]}`;
+  const path = key.startsWith(POKEAPI_BASE_URL) ? key.slice(POKEAPI_BASE_URL.length) : key;
+  return path.replace(/^\/+/, '').split(/[/?]/)[0] || 'other';
+}
+
+function groupKeys(keys: CacheKeyInfo[]): ResourceGroup[] {
+  const groups = new Map<string, ResourceGroup>();
+  for (const info of keys) {
+    const name = groupName(info.key);
+    const group = groups.get(name) ?? { name, keys: [], stale: 0 };
+    group.keys.push(info);
+    if (info.stale) group.stale++;
+    groups.set(name, group);
+  }
+  return [...groups.values()].sort((a, b) => b.keys.length - a.keys.length);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} d`;
+}
+
+export default function CachePage() {
+  const [keys, setKeys] = useState<CacheKeyInfo[]>([]);
+  const [usage, setUsage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setKeys(await listCacheKeys());
+      if (navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        setUsage(estimate.usage ?? null);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read cache');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Cache operation failed');
+    } finally {
+      await refresh();
+      setBusy(false);
+    }
+  }
+
+  const groups = groupKeys(keys);
+  const staleCount = keys.filter((k) => k.stale).length;
+  const oldest = keys.length > 0 ? Math.min(...keys.map((k) => k.storedAt)) : null;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">Offline Cache</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              PokeAPI responses are kept in this browser for{' '}
+              {CACHE_TTL_MS > 0 ? formatDuration(CACHE_TTL_MS) : '0 min (disabled)'}. Stale entries are still shown
+              and refreshed in the background.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Reading cache…</div>
+          ) : (
+            <>
+              {error && <div className="text-sm text-gray-600 dark:text-gray-400">Error: {error}</div>}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Entries</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{keys.length}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Stale</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{staleCount}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Storage used</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{usage !== null ? formatBytes(usage) : '—'}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Oldest entry</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{oldest !== null ? formatDuration(Date.now() - oldest) : '—'}</p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  disabled={busy || staleCount === 0}
+                  onClick={() => run(() => deleteCacheKeys(keys.filter((k) => k.stale).map((k) => k.key)))}
+                  className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                >
+                  Remove stale entries
+                </button>
+                <button
+                  type="button"
+                  disabled={busy || keys.length === 0}
+                  onClick={() => run(clearCache)}
+                  className="px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  Clear cache
+                </button>
+              </div>
+
+              {groups.length > 0 ? (
+                <div className="flex flex-col gap-2">
+                  {groups.map((group) => (
+                    <div
+                      key={group.name}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200"
+                    >
+                      <div className="flex flex-col">
+                        <span className="font-medium">{group.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {group.keys.length} entries{group.stale > 0 ? `, ${group.stale} stale` : ''}
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => run(() => deleteCacheKeys(group.keys.map((k) => k.key)))}
+                        className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500 dark:text-gray-400">The cache is empty.</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BattlerPanel } from '../components/BattlerPanel';
+import { TopNav } from '../components/TopNav';
+import { TypeBadge } from '../components/TypeBadge';
+import {
+  battleStats,
+  damageRolls,
+  defaultBattler,
+  formatKnockOut,
+  knockOut,
+  type BattlerSettings,
+} from '../lib/damage';
+import { formatName, toResourceName } from '../lib/format';
+import { getNatures, natureMultipliers } from '../lib/natures';
+import { getType } from '../lib/pokeapi';
+import { calculateStats, type StatName } from '../lib/stats';
+import { fetchIndex } from '../lib/summaries';
+import { defensiveMultipliers, formatMultiplier, TYPE_NAMES } from '../lib/typeChart';
+import type { MoveSummary, NatureData, PokemonSummary, TypeData } from '../lib/types';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+// Moves the formula can handle: damaging, and of a type the chart knows (not shadow or unknown)
+function isStandardDamage(move: MoveSummary): move is MoveSummary & { power: number; damageClass: string } {
+  return move.power !== null && !!move.damageClass && move.damageClass !== 'status' && TYPE_NAMES.includes(move.type);
+}
+
+function formatPercent(damage: number, hp: number): string {
+  return `${((damage / hp) * 100).toFixed(1)}%`;
+}
+
+export default function CalcPage() {
+  const [pokemonIndex, setPokemonIndex] = useState<Map<string, PokemonSummary>>(new Map());
+  const [moveIndex, setMoveIndex] = useState<Map<string, MoveSummary>>(new Map());
+  const [natures, setNatures] = useState<NatureData[]>([]);
+  const [typeData, setTypeData] = useState<Record<string, TypeData> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attacker, setAttacker] = useState<BattlerSettings>(defaultBattler());
+  const [defender, setDefender] = useState<BattlerSettings>(defaultBattler());
+  const [moveName, setMoveName] = useState('');
+  const [critical, setCritical] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const [pokemon, moves, natureList, types] = await Promise.all([
+          fetchIndex('pokemon'),
+          fetchIndex('moves'),
+          getNatures(),
+          Promise.all(TYPE_NAMES.map((t) => getType(t))),
+        ]);
+        if (cancelled) return;
+        setPokemonIndex(new Map(pokemon.results.map((p) => [p.name, p])));
+        setMoveIndex(new Map(moves.results.map((m) => [m.name, m])));
+        setNatures(natureList);
+        setTypeData(Object.fromEntries(types.map((t) => [t.name, t])));
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load calculator data');
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function statsOf(settings: BattlerSettings, summary: PokemonSummary | undefined): Record<StatName, number> | undefined {
+    if (!summary) return undefined;
+    const nature = natures.find((n) => n.name === settings.nature);
+    return calculateStats(summary.stats, settings.level, settings.ivs, settings.evs, natureMultipliers(nature));
+  }
+
+  const attackerSummary = pokemonIndex.get(toResourceName(attacker.pokemon));
+  const defenderSummary = pokemonIndex.get(toResourceName(defender.pokemon));
+  const attackerStats = statsOf(attacker, attackerSummary);
+  const defenderStats = statsOf(defender, defenderSummary);
+  const move = moveIndex.get(toResourceName(moveName));
+  const damagingMoves = [...moveIndex.values()]
+    .filter(isStandardDamage)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  let result: React.ReactNode = (
+    <span className="text-gray-500 dark:text-gray-400">Pick an attacker, a defender and a damaging move.</span>
+  );
+  if (attackerSummary && defenderSummary && attackerStats && defenderStats && move && typeData) {
+    if (!isStandardDamage(move)) {
+      result = (
+        <span className="text-gray-500 dark:text-gray-400">
+          {formatName(move.name)} doesn&apos;t deal damage through the standard formula.
+        </span>
+      );
+    } else {
+      const stats = battleStats(move.damageClass);
+      const effectiveness = defensiveMultipliers(
+        defenderSummary.types.map((t) => typeData[t]).filter(Boolean)
+      )[move.type];
+      const rolls = damageRolls({
+        level: attacker.level,
+        power: move.power,
+        attack: attackerStats[stats.attack],
+        defense: defenderStats[stats.defense],
+        stab: attackerSummary.types.includes(move.type),
+        effectiveness,
+        critical,
+      });
+      const hp = defenderStats.hp;
+      const ko = knockOut(rolls, hp);
+
+      result = (
+        <div className="flex flex-col gap-2">
+          <p className="text-lg text-gray-800 dark:text-gray-200">
+            <span className="font-semibold">
+              {formatPercent(rolls[0], hp)} – {formatPercent(rolls[rolls.length - 1], hp)}
+            </span>{' '}
+            ({rolls[0]}–{rolls[rolls.length - 1]} of {hp} HP)
+          </p>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {effectiveness === 0
+              ? `${formatName(defenderSummary.name)} is immune to ${formatName(move.type)} moves.`
+              : ko
+                ? formatKnockOut(ko)
+                : 'Takes more than 10 hits to knock out'}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatMultiplier(effectiveness)} effectiveness
+            {attackerSummary.types.includes(move.type) && ' · STAB'}
+            {critical && ' · Critical hit'}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">Rolls: {rolls.join(', ')}</p>
+        </div>
+      );
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="calc" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {error && <div className="text-sm text-gray-600 dark:text-gray-400">Error: {error}</div>}
+
+          <datalist id="calc-pokemon">
+            {[...pokemonIndex.keys()].map((name) => (
+              <option key={name} value={name}>
+                {formatName(name)}
+              </option>
+            ))}
+          </datalist>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <BattlerPanel
+              title="Attacker"
+              settings={attacker}
+              summary={attackerSummary}
+              stats={attackerStats}
+              natures={natures}
+              pokemonList="calc-pokemon"
+              onChange={setAttacker}
+            />
+            <BattlerPanel
+              title="Defender"
+              settings={defender}
+              summary={defenderSummary}
+              stats={defenderStats}
+              natures={natures}
+              pokemonList="calc-pokemon"
+              onChange={setDefender}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Move</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                list="calc-moves"
+                placeholder="Move…"
+                value={moveName}
+                onChange={(e) => setMoveName(e.target.value)}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <datalist id="calc-moves">
+                {damagingMoves.map((m) => (
+                  <option key={m.name} value={m.name}>
+                    {formatName(m.name)}
+                  </option>
+                ))}
+              </datalist>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={critical} onChange={(e) => setCritical(e.target.checked)} />
+                Critical hit
+              </label>
+            </div>
+            {move && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <TypeBadge type={move.type} />
+                <span>{move.damageClass ? formatName(move.damageClass) : '—'}</span>
+                <span>Power {move.power ?? '—'}</span>
+                <Link
+                  href={`/moves/${move.name}`}
+                  className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                >
+                  Details
+                </Link>
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Result</h2>
+            {result}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+              Uses the Generation V+ formula. Abilities, items, weather, stat stages and other field effects are not
+              taken into account.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
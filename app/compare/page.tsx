@@ -0,0 +1,414 @@
+'use client';
+
+import React, { Suspense, useEffect, useState, useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { TopNav } from '../components/TopNav';
+import { TypeBadge } from '../components/TypeBadge';
+import { compareHref, compareStore, MAX_COMPARE, parseCompareParam } from '../lib/compare';
+import { formatName, getTypeColor, toResourceName } from '../lib/format';
+import { getPokemon, getPokemonSpriteUrl, getType } from '../lib/pokeapi';
+import { STAT_LABELS, STAT_NAMES, type StatName } from '../lib/stats';
+import { fetchIndex } from '../lib/summaries';
+import { defensiveCellClass, defensiveMultipliers, formatMultiplier, TYPE_NAMES } from '../lib/typeChart';
+import type { PokemonData, TypeData } from '../lib/types';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+const buttonClass =
+  'px-3 py-2 rounded-lg text-sm font-medium bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50';
+
+const linkClass = 'hover:text-blue-500 dark:hover:text-blue-400 transition-colors';
+
+function baseStat(pokemon: PokemonData, stat: StatName): number {
+  return pokemon.stats.find((s) => s.stat.name === stat)?.base_stat ?? 0;
+}
+
+// Highest value in a row is green, lowest red; the rest show how far they trail the best.
+function StatCells({ values }: { values: number[] }) {
+  const best = Math.max(...values);
+  const worst = Math.min(...values);
+  const differs = best !== worst;
+
+  return values.map((value, i) => (
+    <td
+      key={i}
+      className={[
+        'py-2 pr-3 text-right',
+        differs && value === best ? 'font-semibold text-green-600 dark:text-green-400' : '',
+        differs && value === worst ? 'text-red-600 dark:text-red-400' : '',
+      ].join(' ')}
+    >
+      {value}
+      {differs && value !== best && (
+        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({value - best})</span>
+      )}
+    </td>
+  ));
+}
+
+function MoveList({ moves }: { moves: string[] }) {
+  if (moves.length === 0) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">None</div>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {moves.map((move) => (
+        <Link
+          key={move}
+          href={`/moves/${move}`}
+          className="px-2 py-1 rounded bg-zinc-100 dark:bg-zinc-800 text-xs text-gray-800 dark:text-gray-200 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+        >
+          {formatName(move)}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to keep the page prerenderable.
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <Compare />
+    </Suspense>
+  );
+}
+
+function Compare() {
+  const searchParams = useSearchParams();
+  const param = searchParams.get('pokemon');
+  const selection = useSyncExternalStore(compareStore.subscribe, compareStore.getSnapshot, compareStore.getServerSnapshot);
+  // A shared link wins over the stored selection and replaces it
+  const names = param !== null ? parseCompareParam(param) : (selection ?? []);
+  const nameKey = names.join(',');
+
+  const [pokemonNames, setPokemonNames] = useState<string[]>([]);
+  const [pokemonData, setPokemonData] = useState<Record<string, PokemonData>>({});
+  const [failed, setFailed] = useState<Record<string, string>>({});
+  const [typeData, setTypeData] = useState<Record<string, TypeData> | null>(null);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (!selection) return;
+    if (param === null) {
+      if (selection.length > 0) window.history.replaceState(null, '', compareHref(selection));
+    } else if (nameKey !== selection.join(',')) {
+      compareStore.set(nameKey ? nameKey.split(',') : []);
+    }
+  }, [param, nameKey, selection]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const [index, types] = await Promise.all([
+          fetchIndex('pokemon'),
+          Promise.all(TYPE_NAMES.map((t) => getType(t))),
+        ]);
+        if (cancelled) return;
+        setPokemonNames(index.results.map((p) => p.name));
+        setTypeData(Object.fromEntries(types.map((t) => [t.name, t])));
+      } catch {
+        // the add field and matchup table stay unavailable
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const name of nameKey.split(',').filter(Boolean)) {
+      getPokemon(name)
+        .then((data) => {
+          if (!cancelled) setPokemonData((prev) => (prev[name] ? prev : { ...prev, [name]: data }));
+        })
+        .catch((e) => {
+          if (!cancelled) setFailed((prev) => ({ ...prev, [name]: e instanceof Error ? e.message : 'Failed to load' }));
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nameKey]);
+
+  function setNames(next: string[]) {
+    compareStore.set(next);
+    window.history.replaceState(null, '', compareHref(next));
+  }
+
+  function addPokemon() {
+    const name = toResourceName(newName);
+    if (!pokemonNames.includes(name) || names.includes(name) || names.length >= MAX_COMPARE) return;
+    setNames([...names, name]);
+    setNewName('');
+  }
+
+  const columns = names.map((name) => pokemonData[name]).filter((p): p is PokemonData => !!p);
+  const multipliers = typeData
+    ? columns.map((p) => defensiveMultipliers(p.types.map((t) => typeData[t.type.name]).filter(Boolean)))
+    : [];
+  const moveSets = columns.map((p) => new Set(p.moves.map((m) => m.move.name)));
+  const sortedMoves = (moves: Iterable<string>) => [...moves].sort((a, b) => a.localeCompare(b));
+  const commonMoves = sortedMoves(moveSets[0] ?? []).filter((move) => moveSets.every((set) => set.has(move)));
+  const uniqueMoves = moveSets.map((set, i) =>
+    sortedMoves(set).filter((move) => moveSets.every((other, j) => j === i || !other.has(move)))
+  );
+  const newNameValid = pokemonNames.includes(toResourceName(newName)) && !names.includes(toResourceName(newName));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="compare" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          <div className="flex flex-col gap-2">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+              Compare ({names.length}/{MAX_COMPARE})
+            </h2>
+            {names.length < MAX_COMPARE && (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addPokemon();
+                }}
+              >
+                <input
+                  type="text"
+                  list="compare-pokemon"
+                  placeholder="Add a Pokemon…"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <datalist id="compare-pokemon">
+                  {pokemonNames.map((name) => (
+                    <option key={name} value={name}>
+                      {formatName(name)}
+                    </option>
+                  ))}
+                </datalist>
+                <button type="submit" disabled={!newNameValid} className={buttonClass}>
+                  Add
+                </button>
+              </form>
+            )}
+          </div>
+
+          {names.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Add Pokemon here or with &quot;Add to compare&quot; on any Pokemon page.
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {names.map((name) => {
+                const pokemon = pokemonData[name];
+                return (
+                  <div key={name} className="flex flex-col items-center gap-2 p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                    {pokemon ? (
+                      <>
+                        <img
+                          src={pokemon.sprites.front_default || getPokemonSpriteUrl(pokemon.id)}
+                          alt={pokemon.name}
+                          className="w-24 h-24 object-contain"
+                        />
+                        <Link
+                          href={`/pokemon/${pokemon.name}`}
+                          className={`font-medium text-gray-800 dark:text-gray-200 text-center ${linkClass}`}
+                        >
+                          {formatName(pokemon.name)}
+                        </Link>
+                        <div className="flex flex-wrap justify-center gap-1">
+                          {[...pokemon.types]
+                            .sort((a, b) => a.slot - b.slot)
+                            .map((t) => (
+                              <TypeBadge key={t.type.name} type={t.type.name} />
+                            ))}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                        {failed[name] ? `Couldn't load ${formatName(name)}: ${failed[name]}` : `Loading ${formatName(name)}…`}
+                      </span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setNames(names.filter((n) => n !== name))}
+                      className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {columns.length > 0 && (
+            <>
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Profile</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-2 pr-3 font-medium" />
+                        {columns.map((p) => (
+                          <th key={p.name} className="py-2 pr-3 font-medium">
+                            {formatName(p.name)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-800 dark:text-gray-200 align-top">
+                      <tr className="border-t border-zinc-200 dark:border-zinc-800">
+                        <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">Abilities</th>
+                        {columns.map((p) => (
+                          <td key={p.name} className="py-2 pr-3">
+                            <ul>
+                              {p.abilities.map((a) => (
+                                <li key={a.ability.name}>
+                                  <Link href={`/abilities/${a.ability.name}`} className={linkClass}>
+                                    {formatName(a.ability.name)}
+                                  </Link>
+                                  {a.is_hidden && (
+                                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(Hidden)</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-t border-zinc-200 dark:border-zinc-800">
+                        <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">Height</th>
+                        {columns.map((p) => (
+                          <td key={p.name} className="py-2 pr-3">
+                            {(p.height / 10).toFixed(1)} m
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-t border-zinc-200 dark:border-zinc-800">
+                        <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">Weight</th>
+                        {columns.map((p) => (
+                          <td key={p.name} className="py-2 pr-3">
+                            {(p.weight / 10).toFixed(1)} kg
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Base Stats</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-2 pr-3 font-medium" />
+                        {columns.map((p) => (
+                          <th key={p.name} className="py-2 pr-3 font-medium text-right">
+                            {formatName(p.name)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-800 dark:text-gray-200">
+                      {STAT_NAMES.map((stat) => (
+                        <tr key={stat} className="border-t border-zinc-200 dark:border-zinc-800">
+                          <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">{STAT_LABELS[stat]}</th>
+                          <StatCells values={columns.map((p) => baseStat(p, stat))} />
+                        </tr>
+                      ))}
+                      <tr className="border-t-2 border-zinc-300 dark:border-zinc-700">
+                        <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">Total</th>
+                        <StatCells
+                          values={columns.map((p) => STAT_NAMES.reduce((sum, stat) => sum + baseStat(p, stat), 0))}
+                        />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Defensive Type Matchups</h2>
+                {!typeData ? (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Loading type data…</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="border-collapse text-xs">
+                      <thead>
+                        <tr>
+                          <th className="p-1 text-gray-500 dark:text-gray-400 font-normal text-left">Attacking</th>
+                          {columns.map((p) => (
+                            <th key={p.name} className="p-1 text-gray-700 dark:text-gray-300 font-medium">
+                              {formatName(p.name)}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {TYPE_NAMES.map((attacking) => (
+                          <tr key={attacking}>
+                            <th className="p-0.5">
+                              <span
+                                className="block px-2 py-1 rounded text-white font-medium text-left"
+                                style={{ backgroundColor: getTypeColor(attacking) }}
+                              >
+                                {formatName(attacking)}
+                              </span>
+                            </th>
+                            {multipliers.map((m, i) => (
+                              <td
+                                key={i}
+                                className={`p-0.5 w-16 h-7 text-center border border-zinc-200 dark:border-zinc-800 ${defensiveCellClass(m[attacking])}`}
+                              >
+                                {m[attacking] === 1 ? '' : formatMultiplier(m[attacking])}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6 flex flex-col gap-4">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Moves</h2>
+                {columns.length > 1 && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      In common ({commonMoves.length})
+                    </h3>
+                    <MoveList moves={commonMoves} />
+                  </div>
+                )}
+                {columns.map((p, i) => (
+                  <div key={p.name}>
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      {columns.length > 1 ? `Only ${formatName(p.name)}` : formatName(p.name)} ({uniqueMoves[i].length})
+                    </h3>
+                    <MoveList moves={uniqueMoves[i]} />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import type { BattlerSettings } from '../lib/damage';
+import { formatName } from '../lib/format';
+import { clampLevel, MAX_LEVEL, type StatName } from '../lib/stats';
+import type { NatureData, PokemonSummary } from '../lib/types';
+import { NatureSelect } from './NatureSelect';
+import { StatSpreadInputs } from './StatSpreadInputs';
+import { TypeBadge } from './TypeBadge';
+
+const inputClass =
+  'p-2 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+// One side of the damage calculator: the Pokemon and its level, nature and spread.
+export function BattlerPanel({
+  title,
+  settings,
+  summary,
+  stats,
+  natures,
+  pokemonList,
+  onChange,
+}: {
+  title: string;
+  settings: BattlerSettings;
+  summary: PokemonSummary | undefined;
+  stats: Record<StatName, number> | undefined;
+  natures: NatureData[];
+  // id of a <datalist> with every Pokemon name
+  pokemonList: string;
+  onChange: (settings: BattlerSettings) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3 p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">{title}</h2>
+      <input
+        type="text"
+        list={pokemonList}
+        placeholder="Pokemon…"
+        aria-label={`${title} Pokemon`}
+        value={settings.pokemon}
+        onChange={(e) => onChange({ ...settings, pokemon: e.target.value })}
+        className={inputClass}
+      />
+      {summary && (
+        <div className="flex items-center gap-3">
+          <img src={summary.sprite} alt={summary.name} className="w-16 h-16 object-contain" />
+          <div className="flex flex-col gap-1">
+            <Link
+              href={`/pokemon/${summary.name}`}
+              className="font-medium text-gray-800 dark:text-gray-200 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            >
+              {formatName(summary.name)}
+            </Link>
+            <div className="flex flex-wrap gap-1">
+              {summary.types.map((type) => (
+                <TypeBadge key={type} type={type} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          Level
+          <input
+            type="number"
+            min={1}
+            max={MAX_LEVEL}
+            value={settings.level}
+            onChange={(e) => onChange({ ...settings, level: clampLevel(e.target.value) })}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <NatureSelect
+          natures={natures}
+          value={settings.nature}
+          onChange={(nature) => onChange({ ...settings, nature })}
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+      </div>
+      <StatSpreadInputs
+        ivs={settings.ivs}
+        evs={settings.evs}
+        stats={stats}
+        onChange={(ivs, evs) => onChange({ ...settings, ivs, evs })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  loadSearchGroup,
+  searchEntries,
+  SEARCH_GROUP_LABELS,
+  SEARCH_GROUPS,
+  type SearchEntry,
+  type SearchGroup,
+} from '../lib/search';
+
+// Search across every resource at once. Arrow keys move through the results,
+// Enter opens the highlighted one and Escape (or a click outside) closes.
+// Groups become searchable one by one as they load.
+export function CommandPalette({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [loaded, setLoaded] = useState<Partial<Record<SearchGroup, SearchEntry[]>>>({});
+  const [pending, setPending] = useState(SEARCH_GROUPS.length);
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const group of SEARCH_GROUPS) {
+      loadSearchGroup(group)
+        .then((entries) => {
+          if (!cancelled) setLoaded((prev) => ({ ...prev, [group]: entries }));
+        })
+        .catch(() => {
+          // the group is left out of the results
+        })
+        .finally(() => {
+          if (!cancelled) setPending((count) => count - 1);
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const entries = Object.values(loaded).flat();
+  const results = searchEntries(entries, query);
+  const flat = results.flatMap((r) => r.entries);
+
+  function open(entry: SearchEntry) {
+    onClose();
+    router.push(entry.href);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((i) => (flat.length > 0 ? (i + 1) % flat.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((i) => (flat.length > 0 ? (i - 1 + flat.length) % flat.length : 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (flat[active]) open(flat[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 p-4 pt-24"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        className="w-full max-w-xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 overflow-hidden"
+      >
+        <input
+          type="text"
+          autoFocus
+          placeholder="Search Pokemon, moves, abilities, items, locations…"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={onKeyDown}
+          className="w-full p-4 bg-transparent text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 border-b border-zinc-200 dark:border-zinc-800 focus:outline-none"
+        />
+        <div className="max-h-96 overflow-y-auto p-2">
+          {!query.trim() ? (
+            <div className="p-2 text-sm text-gray-500 dark:text-gray-400">Type to search.</div>
+          ) : results.length === 0 ? (
+            <div className="p-2 text-sm text-gray-500 dark:text-gray-400">{pending > 0 ? 'Loading…' : 'No results.'}</div>
+          ) : (
+            results.map((group) => (
+              <div key={group.group} className="mb-2">
+                <div className="px-2 py-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                  {SEARCH_GROUP_LABELS[group.group]}
+                </div>
+                <ul>
+                  {group.entries.map((entry) => {
+                    const index = flat.indexOf(entry);
+                    const isActive = index === active;
+                    return (
+                      <li key={entry.href} ref={isActive ? activeRef : undefined}>
+                        <button
+                          type="button"
+                          onClick={() => open(entry)}
+                          onMouseMove={() => setActive(index)}
+                          className={[
+                            'w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg text-left text-sm',
+                            isActive ? 'bg-blue-500 text-white' : 'text-gray-800 dark:text-gray-200',
+                          ].join(' ')}
+                        >
+                          <span>{entry.label}</span>
+                          {entry.detail && (
+                            <span className={isActive ? 'text-xs text-blue-100' : 'text-xs text-gray-500 dark:text-gray-400'}>
+                              {entry.detail}
+                            </span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))
+          )}
+          {query.trim() && results.length > 0 && pending > 0 && (
+            <div className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">Still loading more results…</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
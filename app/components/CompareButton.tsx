@@ -0,0 +1,41 @@
+'use client';
+
+import React, { useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import { compareHref, compareStore, MAX_COMPARE } from '../lib/compare';
+
+const buttonClass =
+  'px-3 py-2 rounded-lg text-sm font-medium bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50';
+
+// Adds the shown Pokemon to (or removes it from) the comparison selection.
+export function CompareButton({ pokemon }: { pokemon: string }) {
+  const selection = useSyncExternalStore(compareStore.subscribe, compareStore.getSnapshot, compareStore.getServerSnapshot);
+  if (!selection) return null;
+
+  const selected = selection.includes(pokemon);
+  const full = selection.length >= MAX_COMPARE;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <button
+        type="button"
+        disabled={!selected && full}
+        title={!selected && full ? `Up to ${MAX_COMPARE} Pokemon can be compared` : undefined}
+        onClick={() =>
+          compareStore.set(selected ? selection.filter((name) => name !== pokemon) : [...selection, pokemon])
+        }
+        className={buttonClass}
+      >
+        {selected ? 'Remove from compare' : 'Add to compare'}
+      </button>
+      {selection.length > 0 && (
+        <Link
+          href={compareHref(selection)}
+          className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+        >
+          Compare ({selection.length})
+        </Link>
+      )}
+    </div>
+  );
+}
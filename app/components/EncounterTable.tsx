@@ -0,0 +1,103 @@
+import React from 'react';
+import Link from 'next/link';
+import {
+  encounterRows,
+  formatEncounterCondition,
+  formatEncounterMethod,
+  formatLevelRange,
+} from '../lib/encounters';
+import { formatName } from '../lib/format';
+import type { EncounterVersionDetail, NamedAPIResource } from '../lib/types';
+
+export interface EncounterEntry {
+  name: string;
+  // Rendered as plain text until known
+  href?: string;
+  versionDetails: EncounterVersionDetail[];
+}
+
+export function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: NamedAPIResource[];
+  value: string;
+  onChange: (version: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+      Version
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+      >
+        {versions.map((version) => (
+          <option key={version.name} value={version.name}>
+            {formatName(version.name)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// Encounter slots for one game version: one row per entry (area or Pokemon),
+// method and set of conditions.
+export function EncounterTable({
+  entries,
+  version,
+  entryLabel,
+}: {
+  entries: EncounterEntry[];
+  version: string;
+  entryLabel: string;
+}) {
+  const rows = entries.flatMap((entry) =>
+    encounterRows(entry.versionDetails, version).map((row) => ({ entry, row }))
+  );
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400">No encounters in {formatName(version)}.</div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="py-2 pr-3 font-medium">{entryLabel}</th>
+            <th className="py-2 pr-3 font-medium">Method</th>
+            <th className="py-2 pr-3 font-medium">Levels</th>
+            <th className="py-2 pr-3 font-medium text-right">Rate</th>
+            <th className="py-2 font-medium">Conditions</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-800 dark:text-gray-200">
+          {rows.map(({ entry, row }, i) => (
+            <tr key={`${entry.name}-${i}`} className="border-t border-zinc-200 dark:border-zinc-800">
+              <td className="py-2 pr-3">
+                {entry.href ? (
+                  <Link href={entry.href} className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors">
+                    {formatName(entry.name)}
+                  </Link>
+                ) : (
+                  formatName(entry.name)
+                )}
+              </td>
+              <td className="py-2 pr-3">{formatEncounterMethod(row.method)}</td>
+              <td className="py-2 pr-3 whitespace-nowrap">{formatLevelRange(row)}</td>
+              <td className="py-2 pr-3 text-right">{row.chance}%</td>
+              <td className="py-2 text-gray-500 dark:text-gray-400">
+                {row.conditions.length > 0 ? row.conditions.map(formatEncounterCondition).join(', ') : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { describeEvolutionDetails } from '../lib/evolution';
+import { formatName } from '../lib/format';
+import { fetchResource, getEvolutionChain, getIdFromUrl, getPokemonSpriteUrl } from '../lib/pokeapi';
+import type { EvolutionChainData, EvolutionChainLink, PokemonSpeciesData } from '../lib/types';
+
+function Stage({ link, current }: { link: EvolutionChainLink; current: string }) {
+  const id = getIdFromUrl(link.species.url);
+  const isCurrent = link.species.name === current;
+
+  return (
+    <Link
+      href={`/pokemon/${id}`}
+      className={[
+        'flex flex-col items-center gap-1 p-2 rounded-lg transition-colors flex-shrink-0',
+        isCurrent ? 'bg-zinc-100 dark:bg-zinc-800' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800',
+      ].join(' ')}
+    >
+      <img src={getPokemonSpriteUrl(id)} alt={link.species.name} className="w-16 h-16 object-contain" />
+      <span className="text-sm text-center text-gray-800 dark:text-gray-200">{formatName(link.species.name)}</span>
+      {link.is_baby && <span className="text-xs text-gray-500 dark:text-gray-400">Baby</span>}
+    </Link>
+  );
+}
+
+function ChainBranch({ link, current }: { link: EvolutionChainLink; current: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Stage link={link} current={current} />
+      {link.evolves_to.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {link.evolves_to.map((next) => (
+            <div key={next.species.name} className="flex items-center gap-2">
+              <div className="flex flex-col items-center w-36 flex-shrink-0 text-center">
+                <span className="text-gray-400 dark:text-gray-500">→</span>
+                {describeEvolutionDetails(next.evolution_details).map((text) => (
+                  <span key={text} className="text-xs text-gray-500 dark:text-gray-400">
+                    {text}
+                  </span>
+                ))}
+              </div>
+              <ChainBranch link={next} current={current} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Full evolution tree for a species, including branches (e.g. Eevee) and the
+// trigger and conditions of each step.
+export function EvolutionChain({ speciesUrl }: { speciesUrl: string }) {
+  const [species, setSpecies] = useState<PokemonSpeciesData | null>(null);
+  const [chain, setChain] = useState<EvolutionChainData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setError(null);
+        const speciesData = await fetchResource<PokemonSpeciesData>(speciesUrl);
+        const chainData = speciesData.evolution_chain
+          ? await getEvolutionChain(getIdFromUrl(speciesData.evolution_chain.url))
+          : null;
+        if (!cancelled) {
+          setSpecies(speciesData);
+          setChain(chainData);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load evolution chain');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [speciesUrl]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Loading evolution chain…</div>;
+  }
+  if (error || !species) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Error: {error || 'Species not found'}</div>;
+  }
+  if (!chain || chain.chain.evolves_to.length === 0) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">This Pokemon does not evolve.</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <ChainBranch link={chain.chain} current={species.name} />
+    </div>
+  );
+}
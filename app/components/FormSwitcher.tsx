@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import { fetchResource, getIdFromUrl, getPokemonSpriteUrl } from '../lib/pokeapi';
+import type { PokemonData, PokemonFormData, PokemonSpeciesData } from '../lib/types';
+
+// Every variety of the species (regional forms, Megas, Gigantamax, ...) as
+// switchable tiles, plus the cosmetic forms of the variety being shown.
+export function FormSwitcher({ pokemon, onSelect }: { pokemon: PokemonData; onSelect: (name: string) => void }) {
+  const [varieties, setVarieties] = useState<PokemonSpeciesData['varieties']>([]);
+  const [forms, setForms] = useState<PokemonFormData[]>([]);
+  const speciesUrl = pokemon.species.url;
+  const formUrls = pokemon.forms.map((f) => f.url).join(' ');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchResource<PokemonSpeciesData>(speciesUrl)
+      .then((species) => {
+        if (!cancelled) setVarieties(species.varieties);
+      })
+      .catch(() => {
+        if (!cancelled) setVarieties([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [speciesUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls = formUrls.split(' ').filter(Boolean);
+    Promise.all(urls.map((url) => fetchResource<PokemonFormData>(url)))
+      .then((data) => {
+        if (!cancelled) setForms(data);
+      })
+      .catch(() => {
+        if (!cancelled) setForms([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [formUrls]);
+
+  if (varieties.length <= 1 && forms.length <= 1) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">This Pokemon has no alternate forms.</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {varieties.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {varieties.map((variety) => {
+            const isActive = variety.pokemon.name === pokemon.name;
+            return (
+              <button
+                key={variety.pokemon.name}
+                type="button"
+                onClick={() => onSelect(variety.pokemon.name)}
+                aria-pressed={isActive}
+                className={[
+                  'flex flex-col items-center gap-1 p-2 w-28 rounded-lg transition-colors',
+                  isActive
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 hover:bg-zinc-200 dark:hover:bg-zinc-700',
+                ].join(' ')}
+              >
+                <img
+                  src={getPokemonSpriteUrl(getIdFromUrl(variety.pokemon.url))}
+                  alt={variety.pokemon.name}
+                  className="w-16 h-16 object-contain"
+                />
+                <span className="text-xs text-center">{formatName(variety.pokemon.name)}</span>
+                {variety.is_default && <span className="text-[10px] uppercase tracking-wide opacity-75">Default</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {forms.length > 1 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Cosmetic Forms</h3>
+          <div className="flex flex-wrap gap-2">
+            {forms.map((form) => (
+              <div key={form.name} className="flex flex-col items-center gap-1 p-2 w-28 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                {form.sprites.front_default && (
+                  <img src={form.sprites.front_default} alt={form.name} className="w-16 h-16 object-contain" />
+                )}
+                <span className="text-xs text-center text-gray-800 dark:text-gray-200">
+                  {formatName(form.form_name || form.name)}
+                </span>
+                {form.is_default ? (
+                  <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">Default</span>
+                ) : (
+                  form.is_battle_only && (
+                    <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">Battle only</span>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Link
+        href="/forms"
+        className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline self-start"
+      >
+        Browse all forms
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import type { HeldItemVersionDetail } from '../lib/types';
+
+export interface HeldItemEntry {
+  name: string;
+  href: string;
+  sprite?: string | null;
+  versionDetails: HeldItemVersionDetail[];
+}
+
+// Versions that share a rarity are listed together, highest rarity first.
+function groupByRarity(details: HeldItemVersionDetail[]): Array<{ rarity: number; versions: string[] }> {
+  const groups = new Map<number, string[]>();
+  for (const detail of details) {
+    groups.set(detail.rarity, [...(groups.get(detail.rarity) ?? []), detail.version.name]);
+  }
+  return [...groups.entries()].sort((a, b) => b[0] - a[0]).map(([rarity, versions]) => ({ rarity, versions }));
+}
+
+// Items held by wild Pokemon, with the chance of holding them in each game.
+// Used both for an item's holders and a Pokemon's held items.
+export function HeldItemList({ entries }: { entries: HeldItemEntry[] }) {
+  return (
+    <ul className="flex flex-col gap-2">
+      {entries.map((entry) => (
+        <li key={entry.name} className="flex items-start gap-3 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+          {entry.sprite && <img src={entry.sprite} alt={entry.name} className="w-8 h-8 object-contain flex-shrink-0" />}
+          <div className="flex flex-col gap-1">
+            <Link
+              href={entry.href}
+              className="font-medium text-gray-800 dark:text-gray-200 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            >
+              {formatName(entry.name)}
+            </Link>
+            {groupByRarity(entry.versionDetails).map(({ rarity, versions }) => (
+              <span key={rarity} className="text-sm text-gray-600 dark:text-gray-400">
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{rarity}%</span> in{' '}
+                {versions.map(formatName).join(', ')}
+              </span>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { TypeBadge } from './TypeBadge';
+import { formatName } from '../lib/format';
+import { getIdFromUrl } from '../lib/pokeapi';
+import { fetchIndex } from '../lib/summaries';
+import type { MoveSummary, NamedAPIResource, PokemonData } from '../lib/types';
+
+interface LearnsetRow {
+  move: string;
+  level: number;
+  summary: MoveSummary | undefined;
+}
+
+const METHOD_SECTIONS = [
+  { method: 'level-up', label: 'Level up' },
+  { method: 'machine', label: 'TM / HM' },
+  { method: 'egg', label: 'Egg moves' },
+  { method: 'tutor', label: 'Move tutor' },
+];
+
+// Every version group the Pokemon learns at least one move in, oldest first.
+function versionGroupsOf(moves: PokemonData['moves']): NamedAPIResource[] {
+  const groups = new Map<string, NamedAPIResource>();
+  for (const move of moves) {
+    for (const detail of move.version_group_details) groups.set(detail.version_group.name, detail.version_group);
+  }
+  return [...groups.values()].sort((a, b) => getIdFromUrl(a.url) - getIdFromUrl(b.url));
+}
+
+// Rows per learn method for one version group; anything that isn't one of
+// METHOD_SECTIONS ends up under 'other'.
+function rowsByMethod(
+  moves: PokemonData['moves'],
+  versionGroup: string,
+  summaries: Map<string, MoveSummary>
+): Map<string, LearnsetRow[]> {
+  const sections = new Map<string, LearnsetRow[]>();
+  for (const move of moves) {
+    for (const detail of move.version_group_details) {
+      if (detail.version_group.name !== versionGroup) continue;
+      const method = detail.move_learn_method.name;
+      const key = METHOD_SECTIONS.some((s) => s.method === method) ? method : 'other';
+      const rows = sections.get(key) ?? [];
+      rows.push({ move: move.move.name, level: detail.level_learned_at, summary: summaries.get(move.move.name) });
+      sections.set(key, rows);
+    }
+  }
+  for (const [method, rows] of sections) {
+    rows.sort((a, b) => (method === 'level-up' ? a.level - b.level : 0) || a.move.localeCompare(b.move));
+  }
+  return sections;
+}
+
+function formatStat(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : String(value);
+}
+
+function LearnsetTable({ rows, showLevel }: { rows: LearnsetRow[]; showLevel: boolean }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            {showLevel && <th className="py-2 pr-3 font-medium">Lv.</th>}
+            <th className="py-2 pr-3 font-medium">Move</th>
+            <th className="py-2 pr-3 font-medium">Type</th>
+            <th className="py-2 pr-3 font-medium">Category</th>
+            <th className="py-2 pr-3 font-medium text-right">Power</th>
+            <th className="py-2 pr-3 font-medium text-right">Acc.</th>
+            <th className="py-2 font-medium text-right">PP</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-800 dark:text-gray-200">
+          {rows.map((row, i) => (
+            <tr key={`${row.move}-${i}`} className="border-t border-zinc-200 dark:border-zinc-800">
+              {showLevel && <td className="py-2 pr-3">{row.level > 0 ? row.level : '—'}</td>}
+              <td className="py-2 pr-3">
+                <Link
+                  href={`/moves/${row.move}`}
+                  className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                >
+                  {formatName(row.move)}
+                </Link>
+              </td>
+              <td className="py-2 pr-3">{row.summary && <TypeBadge type={row.summary.type} />}</td>
+              <td className="py-2 pr-3">{row.summary?.damageClass ? formatName(row.summary.damageClass) : '—'}</td>
+              <td className="py-2 pr-3 text-right">{formatStat(row.summary?.power)}</td>
+              <td className="py-2 pr-3 text-right">{formatStat(row.summary?.accuracy)}</td>
+              <td className="py-2 text-right">{formatStat(row.summary?.pp)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// A Pokemon's moves for one game, split by how they are learned.
+export function Learnset({ moves }: { moves: PokemonData['moves'] }) {
+  const versionGroups = versionGroupsOf(moves);
+  const latest = versionGroups[versionGroups.length - 1]?.name ?? '';
+  const [selected, setSelected] = useState<string | null>(null);
+  const [summaries, setSummaries] = useState<Map<string, MoveSummary>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchIndex('moves')
+      .then((index) => {
+        if (!cancelled) setSummaries(new Map(index.results.map((m) => [m.name, m])));
+      })
+      .catch(() => {
+        // the table still lists moves and levels without their stats
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (versionGroups.length === 0) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">No moves recorded.</div>;
+  }
+
+  // Fall back to the latest game when the selection isn't available (e.g. after switching forms).
+  const versionGroup = selected && versionGroups.some((g) => g.name === selected) ? selected : latest;
+  const sections = rowsByMethod(moves, versionGroup, summaries);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        Game
+        <select
+          value={versionGroup}
+          onChange={(e) => setSelected(e.target.value)}
+          className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+        >
+          {versionGroups.map((group) => (
+            <option key={group.name} value={group.name}>
+              {formatName(group.name)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {[...METHOD_SECTIONS, { method: 'other', label: 'Other' }].map(({ method, label }) => {
+        const rows = sections.get(method);
+        if (!rows) return null;
+        return (
+          <div key={method}>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">
+              {label} ({rows.length})
+            </h3>
+            <LearnsetTable rows={rows} showLevel={method === 'level-up'} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { RangeInputs } from './RangeInputs';
+import { formatName, getTypeColor } from '../lib/format';
+import { DEFAULT_MOVE_FILTERS, type MoveFilters } from '../lib/moveFilters';
+import { TYPE_NAMES } from '../lib/typeChart';
+
+const DAMAGE_CLASSES = ['physical', 'special', 'status'];
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+// Filter controls for the move list; `priorities` are the values present in the index.
+export function MoveFilterPanel({
+  filters,
+  onChange,
+  priorities,
+}: {
+  filters: MoveFilters;
+  onChange: (filters: MoveFilters) => void;
+  priorities: number[];
+}) {
+  const update = (patch: Partial<MoveFilters>) => onChange({ ...filters, ...patch });
+
+  function toggleType(type: string) {
+    update({
+      types: filters.types.includes(type) ? filters.types.filter((t) => t !== type) : [...filters.types, type],
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-2">
+        {TYPE_NAMES.map((type) => {
+          const selected = filters.types.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={[
+                'px-3 py-1 rounded-lg text-sm font-medium text-white transition-opacity',
+                selected ? 'ring-2 ring-offset-2 ring-blue-500 dark:ring-offset-zinc-900' : 'opacity-50 hover:opacity-80',
+              ].join(' ')}
+              style={{ backgroundColor: getTypeColor(type) }}
+            >
+              {formatName(type)}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-500 dark:text-gray-400">
+          Category
+          <select value={filters.damageClass} onChange={(e) => update({ damageClass: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {DAMAGE_CLASSES.map((damageClass) => (
+              <option key={damageClass} value={damageClass}>
+                {formatName(damageClass)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-500 dark:text-gray-400">
+          Priority
+          <select
+            value={filters.priority ?? ''}
+            onChange={(e) => update({ priority: e.target.value === '' ? null : Number(e.target.value) })}
+            className={inputClass}
+          >
+            <option value="">Any</option>
+            {priorities.map((priority) => (
+              <option key={priority} value={priority}>
+                {priority > 0 ? `+${priority}` : priority}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <RangeInputs label="Power" range={filters.power} onChange={(power) => update({ power })} />
+        <RangeInputs label="Accuracy" range={filters.accuracy} onChange={(accuracy) => update({ accuracy })} />
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => onChange({ ...DEFAULT_MOVE_FILTERS, q: filters.q, sort: filters.sort, descending: filters.descending })}
+          className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+        >
+          Reset filters
+        </button>
+      </div>
+    </div>
+  );
+}
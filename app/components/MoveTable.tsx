@@ -0,0 +1,77 @@
+import React from 'react';
+import Link from 'next/link';
+import { TypeBadge } from './TypeBadge';
+import { formatName } from '../lib/format';
+import type { MoveSortKey } from '../lib/moveFilters';
+import type { MoveSummary } from '../lib/types';
+
+const COLUMNS: Array<{ key: MoveSortKey; label: string; numeric?: boolean }> = [
+  { key: 'name', label: 'Move' },
+  { key: 'type', label: 'Type' },
+  { key: 'damageClass', label: 'Category' },
+  { key: 'power', label: 'Power', numeric: true },
+  { key: 'accuracy', label: 'Acc.', numeric: true },
+  { key: 'pp', label: 'PP', numeric: true },
+  { key: 'priority', label: 'Priority', numeric: true },
+  { key: 'generation', label: 'Gen', numeric: true },
+];
+
+function formatValue(value: number | null): string {
+  return value === null ? '—' : String(value);
+}
+
+// Dense move listing; clicking a column header sorts by it, clicking again flips the order.
+export function MoveTable({
+  moves,
+  sort,
+  descending,
+  onSort,
+}: {
+  moves: MoveSummary[];
+  sort: MoveSortKey;
+  descending: boolean;
+  onSort: (key: MoveSortKey) => void;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            {COLUMNS.map((column) => (
+              <th key={column.key} className={`py-2 pr-3 font-medium ${column.numeric ? 'text-right' : ''}`}>
+                <button
+                  type="button"
+                  onClick={() => onSort(column.key)}
+                  className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                >
+                  {column.label}
+                  {sort === column.key && (descending ? ' ▼' : ' ▲')}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="text-gray-800 dark:text-gray-200">
+          {moves.map((move) => (
+            <tr key={move.id} className="border-t border-zinc-200 dark:border-zinc-800">
+              <td className="py-2 pr-3">
+                <Link href={`/moves/${move.name}`} className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors">
+                  {formatName(move.name)}
+                </Link>
+              </td>
+              <td className="py-2 pr-3">
+                <TypeBadge type={move.type} />
+              </td>
+              <td className="py-2 pr-3">{move.damageClass ? formatName(move.damageClass) : '—'}</td>
+              <td className="py-2 pr-3 text-right">{formatValue(move.power)}</td>
+              <td className="py-2 pr-3 text-right">{formatValue(move.accuracy)}</td>
+              <td className="py-2 pr-3 text-right">{formatValue(move.pp)}</td>
+              <td className="py-2 pr-3 text-right">{move.priority > 0 ? `+${move.priority}` : move.priority}</td>
+              <td className="py-2 pr-3 text-right">{move.generation.replace('generation-', '').toUpperCase()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
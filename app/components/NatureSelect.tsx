@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { formatNature } from '../lib/natures';
+import type { NatureData } from '../lib/types';
+
+export function NatureSelect({
+  natures,
+  value,
+  onChange,
+  className,
+}: {
+  natures: NatureData[];
+  value: string;
+  onChange: (nature: string) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      aria-label="Nature"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={natures.length === 0}
+      className={className}
+    >
+      {natures.length === 0 && <option value={value}>Loading natures…</option>}
+      {natures.map((nature) => (
+        <option key={nature.name} value={nature.name}>
+          {formatNature(nature)}
+        </option>
+      ))}
+    </select>
+  );
+}
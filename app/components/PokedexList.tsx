@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import { getIdFromUrl, getPokedex, getPokemonSpriteUrl } from '../lib/pokeapi';
+import type { NamedAPIResource, PokedexData } from '../lib/types';
+
+// Regional Pokedexes with a picker; entries are shown in dex order. Species
+// link by id, since a species name isn't always a valid Pokemon name.
+export function PokedexList({ pokedexes }: { pokedexes: NamedAPIResource[] }) {
+  const [selected, setSelected] = useState(pokedexes[0]?.name ?? '');
+  const [pokedex, setPokedex] = useState<PokedexData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setPokedex(null);
+        setError(null);
+        const data = await getPokedex(selected);
+        if (!cancelled) setPokedex(data);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load Pokedex');
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const description = pokedex?.descriptions.find((d) => d.language.name === 'en')?.description;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {pokedexes.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {pokedexes.map((dex) => (
+            <button
+              key={dex.name}
+              type="button"
+              onClick={() => setSelected(dex.name)}
+              className={[
+                'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                selected === dex.name
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700',
+              ].join(' ')}
+            >
+              {formatName(dex.name)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Error: {error}</div>
+      ) : !pokedex ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading Pokedex…</div>
+      ) : (
+        <>
+          {description && <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>}
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 max-h-96 overflow-y-auto pr-1">
+            {pokedex.pokemon_entries.map((entry) => {
+              const id = getIdFromUrl(entry.pokemon_species.url);
+              return (
+                <li key={entry.entry_number}>
+                  <Link
+                    href={`/pokemon/${id}`}
+                    className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                  >
+                    <span className="text-xs text-gray-400 dark:text-gray-500 font-mono">#{entry.entry_number}</span>
+                    <img src={getPokemonSpriteUrl(id)} alt={entry.pokemon_species.name} className="w-16 h-16 object-contain" />
+                    <span className="text-sm text-center text-gray-800 dark:text-gray-200">
+                      {formatName(entry.pokemon_species.name)}
+                    </span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
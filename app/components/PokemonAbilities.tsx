@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import { getAbility } from '../lib/pokeapi';
+import type { PokemonData } from '../lib/types';
+
+// A Pokemon's abilities, linked to their pages, with the short effect inline.
+export function PokemonAbilities({ abilities }: { abilities: PokemonData['abilities'] }) {
+  const [shortEffects, setShortEffects] = useState<Record<string, string>>({});
+  const namesKey = abilities.map((a) => a.ability.name).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const abilityName of namesKey.split(',').filter(Boolean)) {
+      getAbility(abilityName)
+        .then((data) => {
+          const effect = data.effect_entries.find((e) => e.language.name === 'en')?.short_effect;
+          if (!cancelled && effect) setShortEffects((prev) => ({ ...prev, [abilityName]: effect }));
+        })
+        .catch(() => {
+          // the name alone is still useful
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [namesKey]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {abilities.map((ability) => (
+        <div key={ability.ability.name} className="flex flex-col">
+          <div className="flex items-center gap-2">
+            <Link
+              href={`/abilities/${ability.ability.name}`}
+              className="text-gray-800 dark:text-gray-200 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            >
+              {formatName(ability.ability.name)}
+            </Link>
+            {ability.is_hidden && <span className="text-xs text-gray-500 dark:text-gray-400">(Hidden)</span>}
+          </div>
+          {shortEffects[ability.ability.name] && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">{shortEffects[ability.ability.name]}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
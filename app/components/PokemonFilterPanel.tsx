@@ -0,0 +1,182 @@
+'use client';
+
+import React from 'react';
+import { RangeInputs } from './RangeInputs';
+import { formatName, getTypeColor } from '../lib/format';
+import {
+  DEFAULT_FILTERS,
+  POKEMON_STATUSES,
+  type PokemonFilters,
+  type PokemonSortKey,
+} from '../lib/pokemonFilters';
+import { STAT_LABELS, STAT_NAMES } from '../lib/stats';
+import { TYPE_NAMES } from '../lib/typeChart';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+function toggleClass(active: boolean): string {
+  return [
+    'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+    active
+      ? 'bg-blue-500 text-white'
+      : 'bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700',
+  ].join(' ');
+}
+
+// Filter and sort controls for the Pokemon list. Stateless: the page owns the
+// filters (via the URL) and receives every change through onChange.
+export function PokemonFilterPanel({
+  filters,
+  onChange,
+  generations,
+  abilities,
+}: {
+  filters: PokemonFilters;
+  onChange: (filters: PokemonFilters) => void;
+  generations: string[];
+  abilities: string[];
+}) {
+  const update = (patch: Partial<PokemonFilters>) => onChange({ ...filters, ...patch });
+
+  function toggleType(type: string) {
+    if (filters.types.includes(type)) update({ types: filters.types.filter((t) => t !== type) });
+    else if (filters.types.length < 2) update({ types: [...filters.types, type] });
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Type (up to two)</span>
+          <select
+            value={filters.typeMode}
+            onChange={(e) => update({ typeMode: e.target.value as PokemonFilters['typeMode'] })}
+            className={`${inputClass} text-sm`}
+          >
+            <option value="includes">Includes</option>
+            <option value="exactly">Exactly</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TYPE_NAMES.map((type) => {
+            const selected = filters.types.includes(type);
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => toggleType(type)}
+                disabled={!selected && filters.types.length >= 2}
+                className={[
+                  'px-3 py-1 rounded-lg text-sm font-medium text-white transition-opacity disabled:cursor-not-allowed',
+                  selected ? 'ring-2 ring-offset-2 ring-blue-500 dark:ring-offset-zinc-900' : 'opacity-50 hover:opacity-80',
+                ].join(' ')}
+                style={{ backgroundColor: getTypeColor(type) }}
+              >
+                {formatName(type)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-500 dark:text-gray-400">
+          Generation
+          <select value={filters.generation} onChange={(e) => update({ generation: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {generations.map((gen) => (
+              <option key={gen} value={gen}>
+                {formatName(gen)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-500 dark:text-gray-400">
+          Ability
+          <input
+            type="text"
+            list="pokemon-filter-abilities"
+            placeholder="Any"
+            value={filters.ability}
+            onChange={(e) => update({ ability: e.target.value.toLowerCase().replace(/\s+/g, '-') })}
+            className={inputClass}
+          />
+          <datalist id="pokemon-filter-abilities">
+            {abilities.map((ability) => (
+              <option key={ability} value={ability}>
+                {formatName(ability)}
+              </option>
+            ))}
+          </datalist>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {POKEMON_STATUSES.map((status) => {
+          const active = filters.statuses.includes(status);
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() =>
+                update({
+                  statuses: active ? filters.statuses.filter((s) => s !== status) : [...filters.statuses, status],
+                })
+              }
+              className={toggleClass(active)}
+            >
+              {formatName(status)}
+            </button>
+          );
+        })}
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">Base stats</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+          {STAT_NAMES.map((stat) => (
+            <RangeInputs
+              key={stat}
+              label={STAT_LABELS[stat]}
+              range={filters.stats[stat]}
+              onChange={(range) => update({ stats: { ...filters.stats, [stat]: range } })}
+            />
+          ))}
+          <RangeInputs label="Total" range={filters.bst} onChange={(bst) => update({ bst })} />
+        </div>
+      </details>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          Sort by
+          <select
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as PokemonSortKey })}
+            className={`${inputClass} text-sm`}
+          >
+            <option value="id">Number</option>
+            <option value="name">Name</option>
+            <option value="bst">Base stat total</option>
+            {STAT_NAMES.map((stat) => (
+              <option key={stat} value={stat}>
+                {STAT_LABELS[stat]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={() => update({ descending: !filters.descending })} className={toggleClass(false)}>
+          {filters.descending ? 'Descending' : 'Ascending'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...DEFAULT_FILTERS, q: filters.q })}
+          className="ml-auto text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+        >
+          Reset filters
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import { getIdFromUrl, getPokemonSpriteUrl } from '../lib/pokeapi';
+import type { NamedAPIResource } from '../lib/types';
+
+// Sprite grid for a list of Pokemon references, ordered by id. Sprites come
+// straight from the sprite repository, so no per-Pokemon request is needed.
+export function PokemonGrid({ pokemon }: { pokemon: NamedAPIResource[] }) {
+  const sorted = pokemon
+    .map((p) => ({ name: p.name, id: getIdFromUrl(p.url) }))
+    .sort((a, b) => a.id - b.id);
+
+  return (
+    <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 max-h-96 overflow-y-auto pr-1">
+      {sorted.map((p) => (
+        <li key={p.name}>
+          <Link
+            href={`/pokemon/${p.name}`}
+            className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            <img src={getPokemonSpriteUrl(p.id)} alt={p.name} className="w-16 h-16 object-contain" />
+            <span className="text-sm text-center text-gray-800 dark:text-gray-200">{formatName(p.name)}</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
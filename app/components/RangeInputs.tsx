@@ -0,0 +1,42 @@
+import React from 'react';
+import type { Range } from '../lib/range';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+// Labelled min/max number inputs; an empty input leaves that end open.
+export function RangeInputs({
+  label,
+  range,
+  onChange,
+}: {
+  label: string;
+  range: Range | null | undefined;
+  onChange: (range: Range) => void;
+}) {
+  const [min, max] = range ?? [null, null];
+  const parse = (value: string) => (value === '' ? null : Number(value));
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+      <span className="w-24 flex-shrink-0">{label}</span>
+      <input
+        type="number"
+        min={0}
+        placeholder="min"
+        value={min ?? ''}
+        onChange={(e) => onChange([parse(e.target.value), max])}
+        className={`${inputClass} w-20`}
+      />
+      –
+      <input
+        type="number"
+        min={0}
+        placeholder="max"
+        value={max ?? ''}
+        onChange={(e) => onChange([min, parse(e.target.value)])}
+        className={`${inputClass} w-20`}
+      />
+    </label>
+  );
+}
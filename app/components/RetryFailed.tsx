@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+
+// "N failed — retry" notice for lists that loaded only partially.
+export function RetryFailed({
+  count,
+  retrying,
+  onRetry,
+}: {
+  count: number;
+  retrying: boolean;
+  onRetry: () => void;
+}) {
+  if (count === 0) return null;
+
+  return (
+    <span className="text-sm text-gray-500 dark:text-gray-400">
+      {count} failed —{' '}
+      <button
+        type="button"
+        onClick={onRetry}
+        disabled={retrying}
+        className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline disabled:opacity-50"
+      >
+        {retrying ? 'retrying…' : 'retry'}
+      </button>
+    </span>
+  );
+}
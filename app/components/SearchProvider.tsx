@@ -0,0 +1,36 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { CommandPalette } from './CommandPalette';
+
+const OpenSearchContext = createContext<() => void>(() => {});
+
+// Opens the search palette, e.g. from the TopNav search button.
+export function useOpenSearch(): () => void {
+  return useContext(OpenSearchContext);
+}
+
+// Mounted in the root layout so the palette and Ctrl+K (Cmd+K on macOS) work
+// on every route, including pages without a TopNav.
+export function SearchProvider({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setOpen((wasOpen) => !wasOpen);
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <OpenSearchContext.Provider value={() => setOpen(true)}>
+      {children}
+      {open && <CommandPalette onClose={() => setOpen(false)} />}
+    </OpenSearchContext.Provider>
+  );
+}
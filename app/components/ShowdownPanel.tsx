@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useState } from 'react';
+import { exportShowdown, importShowdown, type ShowdownError } from '../lib/showdown';
+import type { TeamMember } from '../lib/team';
+
+const buttonClass =
+  'px-3 py-2 rounded-lg text-sm font-medium bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50';
+
+// Showdown text import/export. An import only goes through when every line
+// parses and every name is known to PokeAPI; otherwise the problems are listed.
+export function ShowdownPanel({
+  members,
+  onImport,
+}: {
+  members: TeamMember[];
+  onImport: (members: TeamMember[]) => void;
+}) {
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<ShowdownError[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  async function runImport() {
+    setImporting(true);
+    setErrors([]);
+    try {
+      const result = await importShowdown(text);
+      if (result.errors.length > 0) {
+        setErrors(result.errors);
+      } else if (result.members.length === 0) {
+        setErrors([{ line: 1, message: 'No Pokemon found' }]);
+      } else {
+        onImport(result.members);
+        setText('');
+      }
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Showdown Import / Export</h2>
+      <textarea
+        rows={10}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste a Showdown team here, or export the current team"
+        spellCheck={false}
+        className="w-full p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm font-mono text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+      />
+      <div className="flex flex-wrap gap-2">
+        <button type="button" disabled={importing || !text.trim()} onClick={runImport} className={buttonClass}>
+          {importing ? 'Checking…' : 'Import as new team'}
+        </button>
+        <button
+          type="button"
+          disabled={members.length === 0}
+          onClick={() => {
+            setText(exportShowdown(members));
+            setErrors([]);
+          }}
+          className={buttonClass}
+        >
+          Export current team
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-sm text-gray-600 dark:text-gray-400 list-disc pl-5">
+          {errors.map((error, i) => (
+            <li key={i}>
+              Line {error.line}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatName, groupFlavorText } from '../lib/format';
+import { fetchResource } from '../lib/pokeapi';
+import type { PokemonSpeciesData } from '../lib/types';
+
+function formatGenderRatio(genderRate: number): string {
+  if (genderRate < 0) return 'Genderless';
+  const female = (genderRate / 8) * 100;
+  return `${100 - female}% male, ${female}% female`;
+}
+
+function InfoItem({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+      <p className="text-lg text-gray-800 dark:text-gray-200">{children}</p>
+    </div>
+  );
+}
+
+// Data from /pokemon-species: genus, Pokedex entries, breeding and capture info.
+export function SpeciesInfo({ speciesUrl }: { speciesUrl: string }) {
+  const [species, setSpecies] = useState<PokemonSpeciesData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setSpecies(null);
+        setError(null);
+        const data = await fetchResource<PokemonSpeciesData>(speciesUrl);
+        if (!cancelled) setSpecies(data);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load species');
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [speciesUrl]);
+
+  if (error) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Error: {error}</div>;
+  }
+  if (!species) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Loading species data…</div>;
+  }
+
+  const genus = species.genera.find((g) => g.language.name === 'en')?.genus;
+  const englishFlavorTexts = species.flavor_text_entries.filter((f) => f.language.name === 'en');
+  const flavorByVersion = groupFlavorText(englishFlavorTexts, (entry) => entry.version.name);
+  // Keep game order rather than sorting alphabetically
+  const versions = Object.keys(flavorByVersion);
+  const status = [
+    species.is_legendary && 'Legendary',
+    species.is_mythical && 'Mythical',
+    species.is_baby && 'Baby',
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {(genus || status.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {genus && <span className="text-lg text-gray-800 dark:text-gray-200">{genus}</span>}
+          {status.map((s) => (
+            <span
+              key={String(s)}
+              className="px-2 py-0.5 rounded-lg bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300 text-xs font-medium"
+            >
+              {s}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <InfoItem label="Gender Ratio">{formatGenderRatio(species.gender_rate)}</InfoItem>
+        <InfoItem label="Capture Rate">{species.capture_rate} / 255</InfoItem>
+        <InfoItem label="Base Friendship">{species.base_happiness ?? '—'}</InfoItem>
+        <InfoItem label="Growth Rate">{formatName(species.growth_rate.name)}</InfoItem>
+        <InfoItem label="Egg Groups">{species.egg_groups.map((g) => formatName(g.name)).join(', ') || '—'}</InfoItem>
+        <InfoItem label="Egg Cycles">{species.hatch_counter ?? '—'}</InfoItem>
+        <InfoItem label="Habitat">{species.habitat ? formatName(species.habitat.name) : '—'}</InfoItem>
+        <InfoItem label="Introduced">{formatName(species.generation.name)}</InfoItem>
+      </div>
+
+      {versions.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">Pokedex Entries</h3>
+          <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+            {versions.map((version) => (
+              <div key={version} className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                <div className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">{formatName(version)}</div>
+                <div className="flex flex-col gap-2">
+                  {flavorByVersion[version].map((txt, idx) => (
+                    <div key={`${version}-${idx}`} className="text-sm text-gray-800 dark:text-gray-200">
+                      {txt}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
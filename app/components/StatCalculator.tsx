@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import { natureMultipliers } from '../lib/natures';
+import {
+  baseStats,
+  baseStatTotal,
+  calculateStat,
+  calculateStats,
+  clampLevel,
+  MAX_EV,
+  MAX_IV,
+  MAX_LEVEL,
+  STAT_ABBREVIATIONS,
+  STAT_LABELS,
+  STAT_NAMES,
+  uniformSpread,
+  type StatName,
+} from '../lib/stats';
+import type { NatureData, PokemonData } from '../lib/types';
+import { NatureSelect } from './NatureSelect';
+import { StatSpreadInputs } from './StatSpreadInputs';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+// Lowest stat: no IVs or EVs and a hindering nature. Highest: perfect IVs,
+// 252 EVs and a boosting nature.
+function statRange(stat: StatName, base: number, level: number): string {
+  const min = calculateStat(stat, base, level, 0, 0, 0.9);
+  const max = calculateStat(stat, base, level, MAX_IV, MAX_EV, 1.1);
+  return `${min}–${max}`;
+}
+
+// Actual stats for a chosen level, nature and IV/EV spread, with the possible
+// range at levels 50 and 100 and the EVs the Pokemon gives when defeated.
+// The nature is shared with the rest of the Pokemon page.
+export function StatCalculator({
+  pokemon,
+  natures,
+  nature,
+  onNatureChange,
+}: {
+  pokemon: PokemonData;
+  natures: NatureData[];
+  nature: string;
+  onNatureChange: (nature: string) => void;
+}) {
+  const [level, setLevel] = useState(50);
+  const [ivs, setIvs] = useState(uniformSpread(MAX_IV));
+  const [evs, setEvs] = useState(uniformSpread(0));
+
+  const base = baseStats(pokemon.stats);
+  const multipliers = natureMultipliers(natures.find((n) => n.name === nature));
+  const stats = calculateStats(base, level, ivs, evs, multipliers);
+  const evYield = pokemon.stats
+    .filter((s) => s.effort > 0)
+    .map((s) => `${s.effort} ${STAT_ABBREVIATIONS[s.stat.name as StatName] ?? s.stat.name}`);
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            Level
+            <input
+              type="number"
+              min={1}
+              max={MAX_LEVEL}
+              value={level}
+              onChange={(e) => setLevel(clampLevel(e.target.value))}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <NatureSelect
+            natures={natures}
+            value={nature}
+            onChange={onNatureChange}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+        </div>
+        <StatSpreadInputs
+          ivs={ivs}
+          evs={evs}
+          stats={stats}
+          onChange={(nextIvs, nextEvs) => {
+            setIvs(nextIvs);
+            setEvs(nextEvs);
+          }}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col gap-2">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="py-1 pr-3 font-medium" />
+              <th className="py-1 pr-3 font-medium text-right">Base</th>
+              <th className="py-1 pr-3 font-medium text-right">Lv. 50</th>
+              <th className="py-1 font-medium text-right">Lv. 100</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-800 dark:text-gray-200">
+            {STAT_NAMES.map((stat) => (
+              <tr key={stat} className="border-t border-zinc-200 dark:border-zinc-800">
+                <th className="py-1 pr-3 font-medium text-gray-500 dark:text-gray-400">{STAT_LABELS[stat]}</th>
+                <td className="py-1 pr-3 text-right">{base[stat]}</td>
+                <td className="py-1 pr-3 text-right">{statRange(stat, base[stat], 50)}</td>
+                <td className="py-1 text-right">{statRange(stat, base[stat], 100)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-zinc-200 dark:border-zinc-800">
+              <th className="py-1 pr-3 font-medium text-gray-500 dark:text-gray-400">Total</th>
+              <td className="py-1 pr-3 text-right font-semibold">{baseStatTotal(base)}</td>
+              <td />
+              <td />
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          EV yield: {evYield.length > 0 ? evYield.join(', ') : 'None'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { MAX_EV, MAX_IV, MAX_TOTAL_EVS, STAT_ABBREVIATIONS, STAT_NAMES, type StatName } from '../lib/stats';
+
+const inputClass =
+  'w-16 p-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+function clampInput(value: string, max: number): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) ? Math.min(Math.max(n, 0), max) : 0;
+}
+
+// IV and EV inputs for the six stats. Values are clamped as they are typed, so
+// the spread stays legal: IVs 0-31, EVs at most 252 per stat and 510 in total.
+// `stats` adds a column with the resulting stats.
+export function StatSpreadInputs({
+  ivs,
+  evs,
+  stats,
+  onChange,
+}: {
+  ivs: Record<StatName, number>;
+  evs: Record<StatName, number>;
+  stats?: Record<StatName, number>;
+  onChange: (ivs: Record<StatName, number>, evs: Record<StatName, number>) => void;
+}) {
+  const evTotal = STAT_NAMES.reduce((sum, stat) => sum + evs[stat], 0);
+
+  return (
+    <table className="text-sm text-left">
+      <thead className="text-gray-500 dark:text-gray-400">
+        <tr>
+          <th className="pr-3 font-medium" />
+          <th className="pr-3 font-medium">IV</th>
+          <th className="pr-3 font-medium">EV</th>
+          {stats && <th className="font-medium text-right">Stat</th>}
+        </tr>
+      </thead>
+      <tbody className="text-gray-800 dark:text-gray-200">
+        {STAT_NAMES.map((stat) => (
+          <tr key={stat}>
+            <th className="pr-3 py-0.5 font-medium text-gray-500 dark:text-gray-400">{STAT_ABBREVIATIONS[stat]}</th>
+            <td className="pr-3 py-0.5">
+              <input
+                type="number"
+                min={0}
+                max={MAX_IV}
+                aria-label={`${STAT_ABBREVIATIONS[stat]} IV`}
+                value={ivs[stat]}
+                onChange={(e) => onChange({ ...ivs, [stat]: clampInput(e.target.value, MAX_IV) }, evs)}
+                className={inputClass}
+              />
+            </td>
+            <td className="pr-3 py-0.5">
+              <input
+                type="number"
+                min={0}
+                max={MAX_EV}
+                step={4}
+                aria-label={`${STAT_ABBREVIATIONS[stat]} EV`}
+                value={evs[stat]}
+                onChange={(e) => {
+                  const max = Math.min(MAX_EV, MAX_TOTAL_EVS - (evTotal - evs[stat]));
+                  onChange(ivs, { ...evs, [stat]: clampInput(e.target.value, max) });
+                }}
+                className={inputClass}
+              />
+            </td>
+            {stats && <td className="py-0.5 text-right font-semibold">{stats[stat]}</td>}
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr>
+          <td colSpan={stats ? 4 : 3} className="pt-1 text-xs text-gray-500 dark:text-gray-400">
+            EVs used: {evTotal}/{MAX_TOTAL_EVS}
+          </td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatName, getTypeColor } from '../lib/format';
+import { getType } from '../lib/pokeapi';
+import {
+  bestAttackMultiplier,
+  defensiveCellClass,
+  defensiveMultipliers,
+  formatMultiplier,
+  TYPE_NAMES,
+} from '../lib/typeChart';
+import type { TypeData } from '../lib/types';
+import { TypeBadge } from './TypeBadge';
+
+export interface AnalyzedMember {
+  name: string;
+  types: string[];
+}
+
+// Team-wide type analysis: a weakness matrix of every attacking type against
+// every member, and the offensive coverage of the members' damaging moves.
+export function TeamAnalysis({ members, attackTypes }: { members: AnalyzedMember[]; attackTypes: string[] }) {
+  const [typeData, setTypeData] = useState<Record<string, TypeData> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const data = await Promise.all(TYPE_NAMES.map((t) => getType(t)));
+        if (!cancelled) setTypeData(Object.fromEntries(data.map((t) => [t.name, t])));
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load type data');
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Error: {error}</div>;
+  }
+  if (!typeData) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Loading type data…</div>;
+  }
+
+  const memberMultipliers = members.map((m) => defensiveMultipliers(m.types.map((t) => typeData[t]).filter(Boolean)));
+  const rows = TYPE_NAMES.map((attacking) => {
+    const multipliers = memberMultipliers.map((m) => m[attacking]);
+    const weak = multipliers.filter((m) => m > 1).length;
+    const resist = multipliers.filter((m) => m < 1).length;
+    return { attacking, multipliers, weak, resist };
+  });
+  const coverage = TYPE_NAMES.map((defending) => ({
+    defending,
+    best: bestAttackMultiplier(attackTypes, [typeData[defending]]),
+  }));
+  const gaps = coverage.filter((c) => c.best < 2).map((c) => c.defending);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Defensive Matrix</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Damage each attacking type deals to each member. Highlighted rows hit more members super-effectively than
+          the team resists.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="border-collapse text-xs">
+            <thead>
+              <tr>
+                <th className="p-1 text-gray-500 dark:text-gray-400 font-normal text-left">Attacking</th>
+                {members.map((member, i) => (
+                  <th key={`${member.name}-${i}`} className="p-1 text-gray-700 dark:text-gray-300 font-medium">
+                    {formatName(member.name)}
+                  </th>
+                ))}
+                <th className="p-1 text-gray-500 dark:text-gray-400 font-normal">Weak</th>
+                <th className="p-1 text-gray-500 dark:text-gray-400 font-normal">Resist</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.attacking}
+                  className={row.weak > row.resist ? 'bg-amber-100 dark:bg-amber-900/40' : undefined}
+                >
+                  <th className="p-0.5">
+                    <span
+                      className="block px-2 py-1 rounded text-white font-medium text-left"
+                      style={{ backgroundColor: getTypeColor(row.attacking) }}
+                    >
+                      {formatName(row.attacking)}
+                    </span>
+                  </th>
+                  {row.multipliers.map((multiplier, i) => (
+                    <td
+                      key={i}
+                      className={`p-0.5 w-12 h-7 text-center border border-zinc-200 dark:border-zinc-800 ${defensiveCellClass(multiplier)}`}
+                    >
+                      {multiplier === 1 ? '' : formatMultiplier(multiplier)}
+                    </td>
+                  ))}
+                  <td className="p-1 text-center text-gray-800 dark:text-gray-200">{row.weak}</td>
+                  <td className="p-1 text-center text-gray-800 dark:text-gray-200">{row.resist}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Offensive Coverage</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Best multiplier the team&apos;s damaging moves reach against each type.
+        </p>
+        {attackTypes.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">Pick some damaging moves to see coverage.</div>
+        ) : (
+          <>
+            <ul className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+              {coverage.map(({ defending, best }) => (
+                <li
+                  key={defending}
+                  className={[
+                    'flex flex-col items-center gap-1 p-2 rounded-lg',
+                    best < 2 ? 'bg-amber-100 dark:bg-amber-900/40' : 'bg-zinc-100 dark:bg-zinc-800',
+                  ].join(' ')}
+                >
+                  <TypeBadge type={defending} />
+                  <span className="text-sm font-semibold text-gray-800 dark:text-gray-200">{formatMultiplier(best)}</span>
+                </li>
+              ))}
+            </ul>
+            {gaps.length > 0 && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-4">
+                No super-effective coverage against: {gaps.map(formatName).join(', ')}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { formatName } from '../lib/format';
+import { MAX_MOVES, type TeamMember } from '../lib/team';
+import type { MoveSummary, PokemonData, PokemonSummary } from '../lib/types';
+import { TypeBadge } from './TypeBadge';
+
+// One team slot: the Pokemon, its types and up to four moves picked from
+// everything it can learn in any game.
+export function TeamMemberCard({
+  member,
+  summary,
+  pokemon,
+  moves,
+  onChange,
+  onRemove,
+}: {
+  member: TeamMember;
+  summary: PokemonSummary | undefined;
+  pokemon: PokemonData | undefined;
+  moves: Map<string, MoveSummary>;
+  onChange: (member: TeamMember) => void;
+  onRemove: () => void;
+}) {
+  const learnable = (pokemon?.moves ?? []).map((m) => m.move.name).sort((a, b) => a.localeCompare(b));
+  const details = [
+    member.nickname && `"${member.nickname}"`,
+    member.level !== undefined && `Lv. ${member.level}`,
+    member.item && `@ ${formatName(member.item)}`,
+    member.ability && formatName(member.ability),
+    member.nature && `${formatName(member.nature)} nature`,
+  ].filter(Boolean);
+
+  function setMove(slot: number, move: string) {
+    const next = [...member.moves];
+    next[slot] = move;
+    onChange({ ...member, moves: next.filter(Boolean) });
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+      <div className="flex items-center gap-3">
+        {summary && <img src={summary.sprite} alt={member.pokemon} className="w-16 h-16 object-contain" />}
+        <div className="flex-1 flex flex-col gap-1">
+          <Link
+            href={`/pokemon/${member.pokemon}`}
+            className="font-medium text-gray-800 dark:text-gray-200 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+          >
+            {formatName(member.pokemon)}
+          </Link>
+          <div className="flex flex-wrap gap-1">
+            {summary?.types.map((type) => <TypeBadge key={type} type={type} />)}
+          </div>
+          {details.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">{details.join(' · ')}</span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {Array.from({ length: MAX_MOVES }, (_, slot) => {
+          const move = member.moves[slot] ?? '';
+          const moveType = moves.get(move)?.type;
+          return (
+            <div key={slot} className="flex items-center gap-2">
+              <select
+                value={move}
+                onChange={(e) => setMove(slot, e.target.value)}
+                disabled={!pokemon || slot > member.moves.length}
+                className="flex-1 min-w-0 p-2 rounded-lg bg-white dark:bg-zinc-900 text-sm text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50"
+              >
+                <option value="">{pokemon ? '— Move —' : 'Loading moves…'}</option>
+                {learnable
+                  .filter((name) => name === move || !member.moves.includes(name))
+                  .map((name) => (
+                    <option key={name} value={name}>
+                      {formatName(name)}
+                    </option>
+                  ))}
+              </select>
+              {moveType && <TypeBadge type={moveType} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,20 +3,52 @@
 import React from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
+import { useOpenSearch } from './SearchProvider';
 
-export type TopNavTab = 'pokemon' | 'locations' | 'moves' | 'generations';
+export type TopNavTab =
+  | 'pokemon'
+  | 'locations'
+  | 'regions'
+  | 'moves'
+  | 'abilities'
+  | 'types'
+  | 'generations'
+  | 'team'
+  | 'compare'
+  | 'calc'
+  | 'natures'
+  | 'items'
+  | 'berries';
 
 const tabs: Array<{ key: TopNavTab; href: string; label: string }> = [
   { key: 'pokemon', href: '/pokemon', label: 'Pokemon' },
   { key: 'locations', href: '/locations', label: 'Locations' },
+  { key: 'regions', href: '/regions', label: 'Regions' },
   { key: 'moves', href: '/moves', label: 'Moves' },
+  { key: 'abilities', href: '/abilities', label: 'Abilities' },
+  { key: 'types', href: '/types', label: 'Types' },
   { key: 'generations', href: '/generations', label: 'Generations' },
+  { key: 'team', href: '/team', label: 'Team' },
+  { key: 'compare', href: '/compare', label: 'Compare' },
+  { key: 'calc', href: '/calc', label: 'Calc' },
+  { key: 'natures', href: '/natures', label: 'Natures' },
+  { key: 'items', href: '/items', label: 'Items' },
+  { key: 'berries', href: '/berries', label: 'Berries' },
 ];
 
 function activeFromPathname(pathname: string): TopNavTab {
   if (pathname.startsWith('/locations')) return 'locations';
+  if (pathname.startsWith('/regions')) return 'regions';
   if (pathname.startsWith('/moves')) return 'moves';
+  if (pathname.startsWith('/abilities')) return 'abilities';
+  if (pathname.startsWith('/types')) return 'types';
   if (pathname.startsWith('/generations')) return 'generations';
+  if (pathname.startsWith('/team')) return 'team';
+  if (pathname.startsWith('/compare')) return 'compare';
+  if (pathname.startsWith('/calc')) return 'calc';
+  if (pathname.startsWith('/natures')) return 'natures';
+  if (pathname.startsWith('/items')) return 'items';
+  if (pathname.startsWith('/berries')) return 'berries';
   return 'pokemon';
 }
 
@@ -24,6 +56,7 @@ export function TopNav({ activeTab }: { activeTab?: TopNavTab }) {
   const pathname = usePathname() || '/pokemon';
   const router = useRouter();
   const active = activeTab ?? activeFromPathname(pathname);
+  const openSearch = useOpenSearch();
 
   return (
     <div className="w-full rounded-b-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
@@ -75,6 +108,29 @@ export function TopNav({ activeTab }: { activeTab?: TopNavTab }) {
             </a>
           </h2>
         </div>
+
+        <button
+          type="button"
+          aria-label="Search"
+          onClick={openSearch}
+          className="flex-shrink-0 h-10 px-3 rounded-lg bg-zinc-200 dark:bg-zinc-800 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+        >
+          <svg
+            viewBox="0 0 24 24"
+            width="18"
+            height="18"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <circle cx="11" cy="11" r="7" />
+            <path d="M21 21l-4.35-4.35" />
+          </svg>
+          <span className="hidden sm:inline">Search</span>
+          <kbd className="hidden sm:inline text-xs text-gray-500 dark:text-gray-400 font-sans">⌘/Ctrl K</kbd>
+        </button>
       </div>
 
       <div className="mt-4 w-full max-w-4xl mx-auto">
@@ -0,0 +1,19 @@
+import React from 'react';
+import Link from 'next/link';
+import { formatName, getTypeColor } from '../lib/format';
+
+// Coloured type label that links to the type's page.
+export function TypeBadge({ type, size = 'sm' }: { type: string; size?: 'sm' | 'md' }) {
+  return (
+    <Link
+      href={`/types/${type}`}
+      className={[
+        'rounded-lg text-white font-medium hover:opacity-80 transition-opacity',
+        size === 'md' ? 'px-4 py-2' : 'px-3 py-1 text-sm',
+      ].join(' ')}
+      style={{ backgroundColor: getTypeColor(type) }}
+    >
+      {formatName(type)}
+    </Link>
+  );
+}
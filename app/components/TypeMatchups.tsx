@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { getType } from '../lib/pokeapi';
+import { defensiveMultipliers, formatMultiplier, groupByMultiplier, MULTIPLIER_GROUPS } from '../lib/typeChart';
+import type { TypeData } from '../lib/types';
+import { TypeBadge } from './TypeBadge';
+
+// Defensive matchups for a Pokemon's types: which attacking types hit it for
+// 4x, 2x, 1x, ½x, ¼x or no damage.
+export function TypeMatchups({ types }: { types: string[] }) {
+  const [typeData, setTypeData] = useState<TypeData[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const typeKey = types.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setTypeData(null);
+        setError(null);
+        const data = await Promise.all(typeKey.split(',').map((t) => getType(t)));
+        if (!cancelled) setTypeData(data);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load type matchups');
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [typeKey]);
+
+  if (error) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Error: {error}</div>;
+  }
+  if (!typeData) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Loading type matchups…</div>;
+  }
+
+  const groups = groupByMultiplier(defensiveMultipliers(typeData));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {MULTIPLIER_GROUPS.map((multiplier) => {
+        const attacking = groups.get(multiplier) ?? [];
+        if (attacking.length === 0) return null;
+        return (
+          <div key={multiplier} className="flex items-start gap-4">
+            <span className="w-12 pt-1 text-sm font-semibold text-gray-700 dark:text-gray-300">
+              {formatMultiplier(multiplier)}
+            </span>
+            <div className="flex-1 flex flex-wrap gap-2">
+              {attacking.map((type) => (
+                <TypeBadge key={type} type={type} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
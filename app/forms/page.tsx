@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RetryFailed } from '../components/RetryFailed';
+import { TopNav } from '../components/TopNav';
+import { FORM_KINDS } from '../lib/forms';
+import { formatName } from '../lib/format';
+import { fetchIndex } from '../lib/summaries';
+import type { FormKind, FormSummary } from '../lib/types';
+
+export default function FormsPage() {
+  const [forms, setForms] = useState<FormSummary[]>([]);
+  const [kind, setKind] = useState<FormKind | 'all'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadForms() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await fetchIndex('forms');
+        if (cancelled) return;
+
+        setForms(data.results);
+        setFailed(data.failed);
+        setLoading(false);
+      } catch (e) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : 'Failed to load forms');
+          setLoading(false);
+        }
+      }
+    }
+
+    loadForms();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('forms', { retryFailed: true });
+      setForms(data.results);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  const filtered = forms.filter((form) => {
+    if (kind !== 'all' && form.kind !== kind) return false;
+    if (!searchTerm) return true;
+    return form.name.toLowerCase().includes(searchTerm.toLowerCase());
+  });
+  const groups = FORM_KINDS.map((k) => ({ ...k, forms: filtered.filter((f) => f.kind === k.kind) })).filter(
+    (g) => g.forms.length > 0
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="pokemon" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl flex flex-col gap-2">
+          <input
+            type="text"
+            placeholder="Search forms by name..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <div className="flex flex-wrap gap-2">
+            {[{ kind: 'all' as const, label: 'All' }, ...FORM_KINDS].map((k) => (
+              <button
+                key={k.kind}
+                type="button"
+                onClick={() => setKind(k.kind)}
+                className={[
+                  'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                  kind === k.kind
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700',
+                ].join(' ')}
+              >
+                {k.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+          {error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Showing {filtered.length} / {forms.length || '...'}
+                </span>
+                {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
+              </div>
+
+              <div className="flex flex-col gap-6">
+                {groups.map((group) => (
+                  <div key={group.kind}>
+                    <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                      {group.label} ({group.forms.length})
+                    </h2>
+                    <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                      {group.forms.map((form) => (
+                        <li key={form.id}>
+                          <Link
+                            href={`/pokemon/${form.pokemon}`}
+                            className="flex flex-col items-center gap-2 p-3 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                          >
+                            {form.sprite ? (
+                              <img src={form.sprite} alt={form.name} className="w-16 h-16 object-contain" />
+                            ) : (
+                              <div className="w-16 h-16" />
+                            )}
+                            <span className="text-sm text-center text-gray-800 dark:text-gray-200">
+                              {formatName(form.name)}
+                            </span>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+
+              {forms.length === 0 && loading && (
+                <div className="text-center text-gray-600 dark:text-gray-400 mt-6">Loading forms…</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,43 +2,12 @@
 
 import React, { useEffect, useState, use } from 'react';
 import Link from 'next/link';
+import { RetryFailed } from '../../components/RetryFailed';
 import { TopNav } from '../../components/TopNav';
-
-interface NamedAPIResource {
-  name: string;
-  url: string;
-}
-
-interface GenerationData {
-  id: number;
-  name: string;
-  main_region: NamedAPIResource;
-  pokemon_species: NamedAPIResource[];
-}
-
-interface PokemonData {
-  id: number;
-  name: string;
-  sprites: {
-    front_default: string | null;
-  };
-  types: Array<{
-    slot: number;
-    type: {
-      name: string;
-      url: string;
-    };
-  }>;
-}
-
-function getSpeciesIdFromUrl(url: string): number {
-  const matches = url.match(/\/pokemon-species\/(\d+)\//);
-  return matches ? parseInt(matches[1], 10) : 0;
-}
-
-function getPokemonSpriteUrl(id: number): string {
-  return `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/${id}.png`;
-}
+import { getTypeColor } from '../../lib/format';
+import { getGeneration, getIdFromUrl, getPokemon, getPokemonSpriteUrl } from '../../lib/pokeapi';
+import { settleAll } from '../../lib/scheduler';
+import type { GenerationData, NamedAPIResource, PokemonData } from '../../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -51,28 +20,21 @@ function formatName(name: string): string {
     .join(' ');
 }
 
-function getTypeColor(typeName: string): string {
-  const colors: Record<string, string> = {
-    normal: '#A8A878',
-    fire: '#F08030',
-    water: '#6890F0',
-    electric: '#F8D030',
-    grass: '#78C850',
-    ice: '#98D8D8',
-    fighting: '#C03028',
-    poison: '#A040A0',
-    ground: '#E0C068',
-    flying: '#A890F0',
-    psychic: '#F85888',
-    bug: '#A8B820',
-    rock: '#B8A038',
-    ghost: '#705898',
-    dragon: '#7038F8',
-    dark: '#705848',
-    steel: '#B8B8D0',
-    fairy: '#EE99AC',
-  };
-  return colors[typeName.toLowerCase()] || '#68A090';
+function insertById(list: PokemonData[], item: PokemonData): PokemonData[] {
+  if (list.some((p) => p.id === item.id)) return list;
+  const updated = [...list, item];
+  updated.sort((a, b) => a.id - b.id);
+  return updated;
+}
+
+// Loads the default Pokemon of each species (same id as the species) and
+// returns the species that could not be loaded.
+async function loadSpeciesPokemon(
+  species: NamedAPIResource[],
+  onLoaded: (pokemon: PokemonData) => void
+): Promise<NamedAPIResource[]> {
+  const { failed } = await settleAll(species, async (s) => onLoaded(await getPokemon(getIdFromUrl(s.url))));
+  return failed;
 }
 
 export default function GenerationDetailPage({ params }: { params: Promise<{ name: string }> }) {
@@ -82,6 +44,8 @@ export default function GenerationDetailPage({ params }: { params: Promise<{ nam
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [failed, setFailed] = useState<NamedAPIResource[]>([]);
+  const [retrying, setRetrying] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -91,36 +55,22 @@ export default function GenerationDetailPage({ params }: { params: Promise<{ nam
         setLoading(true);
         setError(null);
         setPokemon([]);
+        setFailed([]);
 
-        const res = await fetch(`https://pokeapi.co/api/v2/generation/${name}`);
-        if (!res.ok) throw new Error('Generation not found');
-        const genData: GenerationData = await res.json();
+        const genData = await getGeneration(name);
 
         if (cancelled) return;
         setGen(genData);
         setLoading(false);
 
         const sortedSpecies = [...genData.pokemon_species].sort(
-          (a, b) => getSpeciesIdFromUrl(a.url) - getSpeciesIdFromUrl(b.url)
+          (a, b) => getIdFromUrl(a.url) - getIdFromUrl(b.url)
         );
 
-        for (const species of sortedSpecies) {
-          if (cancelled) break;
-          try {
-            const pRes = await fetch(`https://pokeapi.co/api/v2/pokemon/${species.name}`);
-            if (!pRes.ok) continue;
-            const pData: PokemonData = await pRes.json();
-            if (cancelled) break;
-            setPokemon((prev) => {
-              if (prev.some((p) => p.id === pData.id)) return prev;
-              const updated = [...prev, pData];
-              updated.sort((a, b) => a.id - b.id);
-              return updated;
-            });
-          } catch {
-            // ignore individual failures
-          }
-        }
+        const failedSpecies = await loadSpeciesPokemon(sortedSpecies, (pData) => {
+          if (!cancelled) setPokemon((prev) => insertById(prev, pData));
+        });
+        if (!cancelled) setFailed(failedSpecies);
       } catch (e) {
         if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load generation');
         if (!cancelled) setLoading(false);
@@ -133,6 +83,13 @@ export default function GenerationDetailPage({ params }: { params: Promise<{ nam
     };
   }, [name]);
 
+  async function retryFailed() {
+    setRetrying(true);
+    const stillFailed = await loadSpeciesPokemon(failed, (pData) => setPokemon((prev) => insertById(prev, pData)));
+    setFailed(stillFailed);
+    setRetrying(false);
+  }
+
   const filtered = pokemon.filter((p) => {
     if (!searchTerm) return true;
     const s = searchTerm.toLowerCase();
@@ -176,12 +133,19 @@ export default function GenerationDetailPage({ params }: { params: Promise<{ nam
                   </span>
                   {gen?.main_region && (
                     <span className="text-sm text-gray-500 dark:text-gray-400">
-                      Primary region: {formatName(gen.main_region.name)}
+                      Primary region:{' '}
+                      <Link
+                        href={`/regions/${gen.main_region.name}`}
+                        className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                      >
+                        {formatName(gen.main_region.name)}
+                      </Link>
                     </span>
                   )}
                   <span className="text-sm text-gray-500 dark:text-gray-400">
                     Loaded {pokemon.length} / {gen?.pokemon_species.length ?? '...'}
                   </span>
+                  <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
                 </div>
 
                 <Link
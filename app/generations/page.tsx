@@ -3,15 +3,8 @@
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { TopNav } from '../components/TopNav';
-
-interface GenerationListEntry {
-  name: string;
-  url: string;
-}
-
-interface GenerationListResponse {
-  results: GenerationListEntry[];
-}
+import { listResource } from '../lib/pokeapi';
+import type { NamedAPIResource } from '../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -25,7 +18,7 @@ function formatName(name: string): string {
 }
 
 export default function GenerationsPage() {
-  const [gens, setGens] = useState<GenerationListEntry[]>([]);
+  const [gens, setGens] = useState<NamedAPIResource[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,9 +29,7 @@ export default function GenerationsPage() {
       try {
         setLoading(true);
         setError(null);
-        const res = await fetch('https://pokeapi.co/api/v2/generation?limit=100');
-        if (!res.ok) throw new Error('Failed to load generations');
-        const data: GenerationListResponse = await res.json();
+        const data = await listResource('generation', 100);
         if (!cancelled) setGens(data.results);
       } catch (e) {
         if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load generations');
@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { HeldItemList } from '../../components/HeldItemList';
+import { TopNav } from '../../components/TopNav';
+import { formatName, groupFlavorText } from '../../lib/format';
+import { getItem, getItemCategory } from '../../lib/pokeapi';
+import { fetchIndex } from '../../lib/summaries';
+import type { EvolutionStep, ItemCategoryData, ItemData } from '../../lib/types';
+
+export default function ItemDetail({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  const [item, setItem] = useState<ItemData | null>(null);
+  const [category, setCategory] = useState<ItemCategoryData | null>(null);
+  const [evolutions, setEvolutions] = useState<EvolutionStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchItem() {
+      let data: ItemData;
+      try {
+        setLoading(true);
+        setCategory(null);
+        data = await getItem(name);
+        if (cancelled) return;
+        setItem(data);
+        setError(null);
+        setLoading(false);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load item');
+          setLoading(false);
+        }
+        return;
+      }
+
+      // The pocket comes from the category; the page works without it
+      try {
+        const categoryData = await getItemCategory(data.category.name);
+        if (!cancelled) setCategory(categoryData);
+      } catch {
+        // the pocket shows as unknown
+      }
+    }
+
+    fetchItem();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  // PokeAPI doesn't link items to the evolutions that use them; the evolutions
+  // index is searched instead
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchIndex('evolutions')
+      .then((index) => {
+        if (cancelled) return;
+        setEvolutions(index.results.flatMap((chain) => chain.steps).filter((step) => step.items.includes(name)));
+      })
+      .catch(() => {
+        // the evolutions section stays hidden
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const englishEffect = item?.effect_entries.find((e) => e.language.name === 'en');
+  const englishFlavorTexts = (item?.flavor_text_entries ?? [])
+    .filter((f) => f.language.name === 'en')
+    .map((f) => ({ ...f, flavor_text: f.text }));
+  const flavorByVersionGroup = groupFlavorText(englishFlavorTexts, (entry) => entry.version_group.name);
+  const versionGroups = Object.keys(flavorByVersionGroup).sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="items" />
+
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading item…</div>
+          ) : error || !item ? (
+            <div className="flex flex-col items-center justify-center gap-4">
+              <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Item not found'}</span>
+              <Link
+                href="/items"
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                Back to Items
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div className="flex items-center gap-4">
+                {item.sprites.default && (
+                  <img src={item.sprites.default} alt={item.name} className="w-16 h-16 object-contain" />
+                )}
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">{formatName(item.name)}</h1>
+                  <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{item.id}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Category</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{formatName(item.category.name)}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Pocket</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">
+                    {category ? formatName(category.pocket.name) : '—'}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Cost</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">{item.cost > 0 ? `₽${item.cost}` : '—'}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Fling Power</span>
+                  <p className="text-lg text-gray-800 dark:text-gray-200">
+                    {item.fling_power ?? '—'}
+                    {item.fling_effect && (
+                      <span className="block text-sm text-gray-500 dark:text-gray-400">
+                        {formatName(item.fling_effect.name)}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </div>
+
+              {englishEffect && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Effect</h2>
+                  <p className="text-gray-800 dark:text-gray-200 font-medium mb-2">{englishEffect.short_effect}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{englishEffect.effect}</p>
+                </div>
+              )}
+
+              {versionGroups.length > 0 && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Flavor Text (by game/version)
+                  </h2>
+                  <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+                    {versionGroups.map((vg) => (
+                      <div key={vg} className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                        <div className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                          {formatName(vg)}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          {flavorByVersionGroup[vg].map((txt, idx) => (
+                            <div key={`${vg}-${idx}`} className="text-sm text-gray-800 dark:text-gray-200">
+                              {txt}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {item.held_by_pokemon.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Held by wild Pokemon ({item.held_by_pokemon.length})
+                  </h2>
+                  <HeldItemList
+                    entries={item.held_by_pokemon.map((held) => ({
+                      name: held.pokemon.name,
+                      href: `/pokemon/${held.pokemon.name}`,
+                      versionDetails: held.version_details,
+                    }))}
+                  />
+                </div>
+              )}
+
+              {evolutions.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Evolutions using this item ({evolutions.length})
+                  </h2>
+                  <ul className="flex flex-col gap-2">
+                    {evolutions.map((step) => (
+                      <li
+                        key={`${step.from}-${step.species}`}
+                        className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm text-gray-800 dark:text-gray-200"
+                      >
+                        {formatName(step.from)} →{' '}
+                        <Link
+                          href={`/pokemon/${step.speciesId}`}
+                          className="font-medium hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                        >
+                          {formatName(step.species)}
+                        </Link>
+                        <span className="block text-gray-600 dark:text-gray-400">{step.methods.join(' · ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RetryFailed } from '../components/RetryFailed';
+import { TopNav } from '../components/TopNav';
+import { formatName } from '../lib/format';
+import { fetchIndex } from '../lib/summaries';
+import type { ItemSummary } from '../lib/types';
+
+const selectClass =
+  'p-2 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+export default function ItemsListPage() {
+  const [items, setItems] = useState<ItemSummary[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [pocket, setPocket] = useState('');
+  const [category, setCategory] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadItems() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await fetchIndex('items');
+        if (cancelled) return;
+
+        setItems(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
+        setLoading(false);
+      } catch (e) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : 'Failed to load items');
+          setLoading(false);
+        }
+      }
+    }
+
+    loadItems();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('items', { retryFailed: true });
+      setItems(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  const pockets = [...new Set(items.map((item) => item.pocket))].sort((a, b) => a.localeCompare(b));
+  // Categories narrow down to the chosen pocket
+  const categories = [
+    ...new Set(items.filter((item) => !pocket || item.pocket === pocket).map((item) => item.category)),
+  ].sort((a, b) => a.localeCompare(b));
+
+  const filtered = items.filter((item) => {
+    if (pocket && item.pocket !== pocket) return false;
+    if (category && item.category !== category) return false;
+    if (!searchTerm) return true;
+    const s = searchTerm.toLowerCase();
+    const effect = item.shortEffect?.toLowerCase() ?? '';
+    return item.name.toLowerCase().includes(s) || effect.includes(s);
+  });
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="items" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            placeholder="Search items by name or effect..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1 min-w-0 p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <select
+            aria-label="Pocket"
+            value={pocket}
+            onChange={(e) => {
+              setPocket(e.target.value);
+              setCategory('');
+            }}
+            className={selectClass}
+          >
+            <option value="">All pockets</option>
+            {pockets.map((p) => (
+              <option key={p} value={p}>
+                {formatName(p)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All categories</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {formatName(c)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+          {error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Showing {filtered.length} / {total || '...'}
+                </span>
+                {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
+              </div>
+
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {filtered.map((item) => (
+                  <li key={item.id}>
+                    <Link
+                      href={`/items/${item.name}`}
+                      className="flex items-start gap-3 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                    >
+                      {item.sprite ? (
+                        <img src={item.sprite} alt={item.name} className="w-8 h-8 object-contain flex-shrink-0" />
+                      ) : (
+                        <div className="w-8 h-8 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 flex flex-col gap-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-800 dark:text-gray-200">{formatName(item.name)}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{formatName(item.category)}</span>
+                        </div>
+                        {item.shortEffect && (
+                          <span className="text-sm text-gray-600 dark:text-gray-400">{item.shortEffect}</span>
+                        )}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+
+              {items.length === 0 && loading && (
+                <div className="text-center text-gray-600 dark:text-gray-400 mt-6">Loading items…</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// Persistent browser cache for API responses, backed by IndexedDB.
+//
+// Fresh entries are returned without touching the network. Stale entries are
+// returned immediately and refreshed in the background, so the next read gets
+// the new value. On the server, or when IndexedDB is unavailable, every call
+// goes straight to the loader.
+
+const DB_NAME = 'the-ultimate-pokedex';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// Override with NEXT_PUBLIC_CACHE_TTL_SECONDS; 0 disables the cache.
+export const CACHE_TTL_MS =
+  Number(process.env.NEXT_PUBLIC_CACHE_TTL_SECONDS ?? DEFAULT_TTL_SECONDS) * 1000 || 0;
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  storedAt: number;
+  value: T;
+}
+
+export interface CacheKeyInfo {
+  key: string;
+  storedAt: number;
+  stale: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const revalidating = new Set<string>();
+
+function cacheAvailable(): boolean {
+  return CACHE_TTL_MS > 0 && typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('storedAt', 'storedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isStale(entry: { storedAt: number }): boolean {
+  return Date.now() - entry.storedAt > CACHE_TTL_MS;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  try {
+    return await withStore<CacheEntry<T> | undefined>('readonly', (store) => store.get(key));
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeEntry<T>(key: string, value: T): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put({ key, storedAt: Date.now(), value }));
+  } catch {
+    // a failed write only costs us a refetch next time
+  }
+}
+
+// Always calls the loader and replaces whatever is cached under `key`.
+export async function refreshCached<T>(key: string, loader: () => Promise<T>): Promise<T> {
+  const value = await loader();
+  if (cacheAvailable()) await writeEntry(key, value);
+  return value;
+}
+
+export async function cached<T>(key: string, loader: () => Promise<T>): Promise<T> {
+  if (!cacheAvailable()) return loader();
+
+  const entry = await readEntry<T>(key);
+  if (!entry) return refreshCached(key, loader);
+
+  if (isStale(entry) && !revalidating.has(key)) {
+    revalidating.add(key);
+    refreshCached(key, loader)
+      .catch(() => {
+        // keep serving the stale copy until a refresh succeeds
+      })
+      .finally(() => revalidating.delete(key));
+  }
+  return entry.value;
+}
+
+export async function listCacheKeys(): Promise<CacheKeyInfo[]> {
+  if (!cacheAvailable()) return [];
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const keys: CacheKeyInfo[] = [];
+    // A key cursor over the storedAt index avoids loading the cached bodies.
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).index('storedAt').openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(keys);
+        return;
+      }
+      const storedAt = cursor.key as number;
+      keys.push({ key: String(cursor.primaryKey), storedAt, stale: isStale({ storedAt }) });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteCacheKeys(keys: string[]): Promise<void> {
+  if (!cacheAvailable() || keys.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    for (const key of keys) store.delete(key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function clearCache(): Promise<void> {
+  if (!cacheAvailable()) return;
+  await withStore('readwrite', (store) => store.clear());
+}
@@ -0,0 +1,25 @@
+// The Pokemon picked for side-by-side comparison. The selection lives in
+// localStorage so it survives navigating between detail pages.
+
+import { createLocalStore } from './localStore';
+
+export const MAX_COMPARE = 4;
+
+const STORAGE_KEY = 'the-ultimate-pokedex:compare';
+
+export const compareStore = createLocalStore<string[]>(STORAGE_KEY, (stored) =>
+  Array.isArray(stored) ? stored.filter((name) => typeof name === 'string').slice(0, MAX_COMPARE) : []
+);
+
+// Reads the ?pokemon=a,b,c parameter, dropping blanks and duplicates.
+export function parseCompareParam(value: string): string[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)].slice(0, MAX_COMPARE);
+}
+
+export function compareHref(names: string[]): string {
+  return names.length > 0 ? `/compare?pokemon=${names.join(',')}` : '/compare';
+}
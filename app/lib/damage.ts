@@ -0,0 +1,96 @@
+// Damage formula of Generation V onwards, without field effects, abilities,
+// items or stat stages:
+//
+//   base = floor(floor(floor(2 * level / 5 + 2) * power * attack / defense) / 50) + 2
+//
+// then, in order: critical hit (x1.5), random roll (85-100%), STAB (x1.5) and
+// type effectiveness. Each step rounds the way the games do.
+
+import { NEUTRAL_NATURE } from './natures';
+import { MAX_IV, uniformSpread, type StatName } from './stats';
+
+export interface BattlerSettings {
+  // As typed; resolved to a Pokemon with toResourceName
+  pokemon: string;
+  level: number;
+  nature: string;
+  ivs: Record<StatName, number>;
+  evs: Record<StatName, number>;
+}
+
+export function defaultBattler(pokemon = ''): BattlerSettings {
+  return { pokemon, level: 50, nature: NEUTRAL_NATURE, ivs: uniformSpread(MAX_IV), evs: uniformSpread(0) };
+}
+
+export interface DamageInput {
+  level: number;
+  power: number;
+  attack: number;
+  defense: number;
+  stab: boolean;
+  effectiveness: number;
+  critical: boolean;
+}
+
+// Rounds to the nearest integer, with halves going down.
+function pokeRound(value: number): number {
+  return value % 1 > 0.5 ? Math.ceil(value) : Math.floor(value);
+}
+
+// All 16 damage rolls, lowest first.
+export function damageRolls(input: DamageInput): number[] {
+  const base =
+    Math.floor(Math.floor((Math.floor((2 * input.level) / 5 + 2) * input.power * input.attack) / input.defense) / 50) +
+    2;
+  const afterCrit = input.critical ? pokeRound(base * 1.5) : base;
+
+  return Array.from({ length: 16 }, (_, i) => {
+    let damage = Math.floor((afterCrit * (85 + i)) / 100);
+    if (input.stab) damage = pokeRound(damage * 1.5);
+    damage = Math.floor(damage * input.effectiveness);
+    // Anything that connects deals at least 1
+    return input.effectiveness > 0 ? Math.max(damage, 1) : 0;
+  });
+}
+
+export interface KnockOut {
+  hits: number;
+  // Probability in [0, 1] that this many hits knock out
+  chance: number;
+}
+
+const MAX_HITS = 10;
+
+// The fewest hits that can knock out a target with `hp`, and how likely that
+// is when every roll is equally likely. Null when even ten hits can't.
+export function knockOut(rolls: number[], hp: number): KnockOut | null {
+  // Sums are capped at hp, so the distribution stays small
+  let sums = new Map<number, number>([[0, 1]]);
+  for (let hits = 1; hits <= MAX_HITS; hits++) {
+    const next = new Map<number, number>();
+    for (const [sum, probability] of sums) {
+      for (const roll of rolls) {
+        const total = Math.min(sum + roll, hp);
+        next.set(total, (next.get(total) ?? 0) + probability / rolls.length);
+      }
+    }
+    sums = next;
+    const chance = sums.get(hp) ?? 0;
+    if (chance > 0) return { hits, chance };
+  }
+  return null;
+}
+
+export function formatKnockOut(ko: KnockOut): string {
+  const label = ko.hits === 1 ? 'OHKO' : `${ko.hits}HKO`;
+  if (ko.chance >= 1) return `Guaranteed ${label}`;
+  return `${(ko.chance * 100).toFixed(1)}% chance to ${label}`;
+}
+
+// Attack and defense stats the move uses: physical moves pit Attack against
+// Defense, special moves Sp. Attack against Sp. Defense.
+export function battleStats(damageClass: string): { attack: StatName; defense: StatName } {
+  return damageClass === 'special'
+    ? { attack: 'special-attack', defense: 'special-defense' }
+    : { attack: 'attack', defense: 'defense' };
+}
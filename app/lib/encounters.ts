@@ -0,0 +1,74 @@
+import { formatName } from './format';
+import { getIdFromUrl } from './pokeapi';
+import type { EncounterVersionDetail, NamedAPIResource } from './types';
+
+export interface EncounterRow {
+  method: string;
+  minLevel: number;
+  maxLevel: number;
+  chance: number;
+  conditions: string[];
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  walk: 'Walking',
+  surf: 'Surfing',
+  'old-rod': 'Old Rod',
+  'good-rod': 'Good Rod',
+  'super-rod': 'Super Rod',
+  'rock-smash': 'Rock Smash',
+  headbutt: 'Headbutt',
+  'gift-egg': 'Gift Egg',
+};
+
+export function formatEncounterMethod(method: string): string {
+  return METHOD_LABELS[method] ?? formatName(method);
+}
+
+// Condition values are prefixed with their kind (time-night, season-spring,
+// swarm-yes, ...). Time and season read better without the prefix.
+export function formatEncounterCondition(condition: string): string {
+  return formatName(condition.replace(/^(time|season)-/, ''));
+}
+
+// Every game version that appears in the given encounter lists, in release order.
+export function encounterVersions(lists: Array<Array<{ version: NamedAPIResource }>>): NamedAPIResource[] {
+  const versions = new Map<string, NamedAPIResource>();
+  for (const details of lists) {
+    for (const detail of details) versions.set(detail.version.name, detail.version);
+  }
+  return [...versions.values()].sort((a, b) => getIdFromUrl(a.url) - getIdFromUrl(b.url));
+}
+
+// PokeAPI lists one encounter slot per entry, so the same method and
+// conditions often appear several times. Slots are merged into one row with
+// the combined level range and summed rate.
+export function encounterRows(details: EncounterVersionDetail[], version: string): EncounterRow[] {
+  const rows = new Map<string, EncounterRow>();
+  for (const detail of details) {
+    if (detail.version.name !== version) continue;
+    for (const slot of detail.encounter_details) {
+      const conditions = slot.condition_values.map((c) => c.name).sort();
+      const key = [slot.method.name, ...conditions].join('|');
+      const row = rows.get(key);
+      if (row) {
+        row.minLevel = Math.min(row.minLevel, slot.min_level);
+        row.maxLevel = Math.max(row.maxLevel, slot.max_level);
+        row.chance += slot.chance;
+      } else {
+        rows.set(key, {
+          method: slot.method.name,
+          minLevel: slot.min_level,
+          maxLevel: slot.max_level,
+          chance: slot.chance,
+          conditions,
+        });
+      }
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.method.localeCompare(b.method) || b.chance - a.chance);
+}
+
+export function formatLevelRange(row: Pick<EncounterRow, 'minLevel' | 'maxLevel'>): string {
+  return row.minLevel === row.maxLevel ? `Lv. ${row.minLevel}` : `Lv. ${row.minLevel}–${row.maxLevel}`;
+}
@@ -0,0 +1,51 @@
+import { formatName } from './format';
+import type { EvolutionDetail } from './types';
+
+function describeTrigger(detail: EvolutionDetail): string {
+  switch (detail.trigger.name) {
+    case 'level-up':
+      return detail.min_level !== null ? `Level ${detail.min_level}` : 'Level up';
+    case 'trade':
+      return 'Trade';
+    case 'use-item':
+      return detail.item ? `Use ${formatName(detail.item.name)}` : 'Use item';
+    case 'shed':
+      return 'Level 20 with an empty party slot and a Poké Ball';
+    default:
+      return formatName(detail.trigger.name);
+  }
+}
+
+function describeConditions(detail: EvolutionDetail): string[] {
+  const conditions: string[] = [];
+  if (detail.item && detail.trigger.name !== 'use-item') conditions.push(`with ${formatName(detail.item.name)}`);
+  if (detail.held_item) conditions.push(`holding ${formatName(detail.held_item.name)}`);
+  if (detail.known_move) conditions.push(`knowing ${formatName(detail.known_move.name)}`);
+  if (detail.known_move_type) conditions.push(`knowing a ${formatName(detail.known_move_type.name)}-type move`);
+  if (detail.location) conditions.push(`at ${formatName(detail.location.name)}`);
+  if (detail.min_happiness !== null) conditions.push(`friendship ≥ ${detail.min_happiness}`);
+  if (detail.min_beauty !== null) conditions.push(`beauty ≥ ${detail.min_beauty}`);
+  if (detail.min_affection !== null) conditions.push(`affection ≥ ${detail.min_affection}`);
+  if (detail.time_of_day) conditions.push(detail.time_of_day === 'night' ? 'at night' : `during the ${detail.time_of_day}`);
+  if (detail.gender === 1) conditions.push('female only');
+  if (detail.gender === 2) conditions.push('male only');
+  if (detail.party_species) conditions.push(`with ${formatName(detail.party_species.name)} in the party`);
+  if (detail.party_type) conditions.push(`with a ${formatName(detail.party_type.name)}-type in the party`);
+  if (detail.trade_species) conditions.push(`for ${formatName(detail.trade_species.name)}`);
+  if (detail.relative_physical_stats === 1) conditions.push('Attack > Defense');
+  if (detail.relative_physical_stats === 0) conditions.push('Attack = Defense');
+  if (detail.relative_physical_stats === -1) conditions.push('Attack < Defense');
+  if (detail.needs_overworld_rain) conditions.push('while raining');
+  if (detail.turn_upside_down) conditions.push('with the console upside down');
+  return conditions;
+}
+
+// Human-readable evolution requirement, e.g. "Level up, friendship ≥ 160, during the day".
+export function describeEvolution(detail: EvolutionDetail): string {
+  return [describeTrigger(detail), ...describeConditions(detail)].join(', ');
+}
+
+// A link can list several methods (different games, alternative triggers).
+export function describeEvolutionDetails(details: EvolutionDetail[]): string[] {
+  return Array.from(new Set(details.map(describeEvolution)));
+}
@@ -0,0 +1,67 @@
+export function capitalizeFirst(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+export function formatName(name: string): string {
+  return name
+    .split('-')
+    .map((word) => capitalizeFirst(word))
+    .join(' ');
+}
+
+// Display name -> PokeAPI resource name: 'Mr. Mime' -> 'mr-mime',
+// "Farfetch'd" -> 'farfetchd', 'Nidoran♀' -> 'nidoran-f'.
+export function toResourceName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/♀/g, '-f')
+    .replace(/♂/g, '-m')
+    .replace(/[.'’:]/g, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-');
+}
+
+export function cleanFlavorText(text: string): string {
+  return text.replace(/\f/g, ' ').replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Cleans flavor texts and groups them by game (version or version group),
+// dropping duplicates within a group.
+export function groupFlavorText<E extends { flavor_text: string }>(
+  entries: E[],
+  groupOf: (entry: E) => string
+): Record<string, string[]> {
+  return entries.reduce<Record<string, string[]>>((acc, entry) => {
+    const group = groupOf(entry);
+    const cleaned = cleanFlavorText(entry.flavor_text);
+    if (!acc[group]) acc[group] = [];
+    if (!acc[group].includes(cleaned)) acc[group].push(cleaned);
+    return acc;
+  }, {});
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  normal: '#A8A878',
+  fire: '#F08030',
+  water: '#6890F0',
+  electric: '#F8D030',
+  grass: '#78C850',
+  ice: '#98D8D8',
+  fighting: '#C03028',
+  poison: '#A040A0',
+  ground: '#E0C068',
+  flying: '#A890F0',
+  psychic: '#F85888',
+  bug: '#A8B820',
+  rock: '#B8A038',
+  ghost: '#705898',
+  dragon: '#7038F8',
+  dark: '#705848',
+  steel: '#B8B8D0',
+  fairy: '#EE99AC',
+};
+
+export function getTypeColor(typeName: string): string {
+  return TYPE_COLORS[typeName.toLowerCase()] || '#68A090';
+}
@@ -0,0 +1,26 @@
+import { getIdFromUrl } from './pokeapi';
+import type { FormKind, PokemonFormData } from './types';
+
+const REGIONAL_PATTERN = /-(alola|galar|hisui|paldea)(-|$)/;
+
+// Alternate forms are numbered from 10001 upwards; anything below belongs to
+// a species' default Pokemon.
+export const FIRST_ALTERNATE_ID = 10001;
+
+export const FORM_KINDS: Array<{ kind: FormKind; label: string }> = [
+  { kind: 'regional', label: 'Regional' },
+  { kind: 'mega', label: 'Mega' },
+  { kind: 'gmax', label: 'Gigantamax' },
+  { kind: 'cosmetic', label: 'Cosmetic' },
+  { kind: 'other', label: 'Other varieties' },
+];
+
+export function formKind(form: Pick<PokemonFormData, 'name' | 'is_mega' | 'pokemon'>): FormKind {
+  if (form.is_mega || form.name.includes('-mega')) return 'mega';
+  if (form.name.endsWith('-gmax')) return 'gmax';
+  if (REGIONAL_PATTERN.test(form.name)) return 'regional';
+  // A cosmetic form shares its data with the default Pokemon (Unown letters,
+  // Burmy cloaks, Vivillon patterns, ...).
+  if (getIdFromUrl(form.pokemon.url) < FIRST_ALTERNATE_ID) return 'cosmetic';
+  return 'other';
+}
@@ -0,0 +1,61 @@
+// A value kept in localStorage and read through useSyncExternalStore:
+//
+//   const value = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+//
+// Writes notify every subscriber in this tab; the storage event covers other tabs.
+
+export interface LocalStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+  // There is no localStorage during prerendering.
+  getServerSnapshot: () => T | null;
+  set: (value: T) => void;
+}
+
+// `parse` receives the stored JSON (undefined when missing or unreadable) and
+// must return a usable value, falling back to a default.
+export function createLocalStore<T>(key: string, parse: (stored: unknown) => T): LocalStore<T> {
+  let snapshot: T | undefined;
+  const listeners = new Set<() => void>();
+
+  function load(): T {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return parse(raw ? JSON.parse(raw) : undefined);
+    } catch {
+      return parse(undefined);
+    }
+  }
+
+  return {
+    subscribe(listener) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key !== key) return;
+        snapshot = undefined;
+        listener();
+      };
+      listeners.add(listener);
+      window.addEventListener('storage', onStorage);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+    getSnapshot() {
+      if (snapshot === undefined) snapshot = load();
+      return snapshot;
+    },
+    getServerSnapshot() {
+      return null;
+    },
+    set(value) {
+      snapshot = value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        // storage full or disabled; the value still lives for this session
+      }
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
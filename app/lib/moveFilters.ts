@@ -0,0 +1,70 @@
+import { inRange, isOpenRange, type Range } from './range';
+import type { MoveSummary } from './types';
+
+export type MoveSortKey = 'id' | 'name' | 'type' | 'damageClass' | 'power' | 'accuracy' | 'pp' | 'priority' | 'generation';
+
+export interface MoveFilters {
+  q: string;
+  // Matches moves of any selected type
+  types: string[];
+  damageClass: string;
+  power: Range | null;
+  accuracy: Range | null;
+  // null: any priority
+  priority: number | null;
+  sort: MoveSortKey;
+  descending: boolean;
+}
+
+export const DEFAULT_MOVE_FILTERS: MoveFilters = {
+  q: '',
+  types: [],
+  damageClass: '',
+  power: null,
+  accuracy: null,
+  priority: null,
+  sort: 'id',
+  descending: false,
+};
+
+const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x'];
+
+// 'generation-iv' -> 4, for ordering; unknown names sort last.
+export function generationNumber(generation: string): number {
+  const index = ROMAN_NUMERALS.indexOf(generation.replace('generation-', ''));
+  return index >= 0 ? index + 1 : Number.MAX_SAFE_INTEGER;
+}
+
+export function matchesMoveFilters(move: MoveSummary, filters: MoveFilters): boolean {
+  if (filters.q) {
+    const search = filters.q.toLowerCase();
+    const damage = move.damageClass?.toLowerCase() ?? '';
+    if (!move.name.toLowerCase().includes(search) && !damage.includes(search)) return false;
+  }
+  if (filters.types.length > 0 && !filters.types.includes(move.type)) return false;
+  if (filters.damageClass && move.damageClass !== filters.damageClass) return false;
+  // Moves without power or accuracy (status moves, never-miss moves) only pass an open range
+  if (!isOpenRange(filters.power) && (move.power === null || !inRange(move.power, filters.power))) return false;
+  if (!isOpenRange(filters.accuracy) && (move.accuracy === null || !inRange(move.accuracy, filters.accuracy))) {
+    return false;
+  }
+  if (filters.priority !== null && move.priority !== filters.priority) return false;
+  return true;
+}
+
+function sortValue(move: MoveSummary, key: MoveSortKey): string | number | null {
+  if (key === 'generation') return generationNumber(move.generation);
+  return move[key];
+}
+
+// Missing values (e.g. power of a status move) always go last; ties keep id order.
+export function sortMoves(moves: MoveSummary[], sort: MoveSortKey, descending: boolean): MoveSummary[] {
+  const direction = descending ? -1 : 1;
+  return [...moves].sort((a, b) => {
+    const va = sortValue(a, sort);
+    const vb = sortValue(b, sort);
+    if (va === null || vb === null) return va === vb ? a.id - b.id : va === null ? 1 : -1;
+    const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    return order * direction || a.id - b.id;
+  });
+}
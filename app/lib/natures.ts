@@ -0,0 +1,61 @@
+import { formatName } from './format';
+import { getCharacteristic, getIdFromUrl, getNature, listResource } from './pokeapi';
+import { STAT_ABBREVIATIONS, type StatName } from './stats';
+import type { CharacteristicData, NatureData } from './types';
+
+// The stats natures raise and lower, in the order the games list them; HP is never affected.
+export const NATURE_STATS: StatName[] = ['attack', 'defense', 'special-attack', 'special-defense', 'speed'];
+
+// Hardy is one of the five natures that raise and lower the same stat.
+export const NEUTRAL_NATURE = 'hardy';
+
+// PokeAPI has no bulk endpoint, so every nature is fetched on its own.
+export async function getNatures(): Promise<NatureData[]> {
+  const list = await listResource('nature', 100);
+  const natures = await Promise.all(list.results.map((n) => getNature(n.name)));
+  return natures.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function isNeutral(nature: NatureData): boolean {
+  return nature.increased_stat?.name === nature.decreased_stat?.name;
+}
+
+// ×1.1 on the raised stat and ×0.9 on the lowered one; neutral natures change nothing.
+export function natureMultipliers(nature: NatureData | undefined): Partial<Record<StatName, number>> {
+  if (!nature || isNeutral(nature)) return {};
+  const multipliers: Partial<Record<StatName, number>> = {};
+  if (nature.increased_stat) multipliers[nature.increased_stat.name as StatName] = 1.1;
+  if (nature.decreased_stat) multipliers[nature.decreased_stat.name as StatName] = 0.9;
+  return multipliers;
+}
+
+// "Adamant (+Atk, −SpA)", or just the name for neutral natures.
+export function formatNature(nature: NatureData): string {
+  if (isNeutral(nature) || !nature.increased_stat || !nature.decreased_stat) return formatName(nature.name);
+  const up = STAT_ABBREVIATIONS[nature.increased_stat.name as StatName];
+  const down = STAT_ABBREVIATIONS[nature.decreased_stat.name as StatName];
+  return `${formatName(nature.name)} (+${up}, −${down})`;
+}
+
+// PokeAPI may leave both stats empty on the five neutral natures; in the
+// games each of them sits on the diagonal for one stat.
+const NEUTRAL_NATURES: Partial<Record<StatName, string>> = {
+  attack: 'hardy',
+  defense: 'docile',
+  'special-attack': 'bashful',
+  'special-defense': 'quirky',
+  speed: 'serious',
+};
+
+// Natures are looked up by the stat they raise and the one they lower.
+export function natureFor(natures: NatureData[], increased: StatName, decreased: StatName): NatureData | undefined {
+  const match = natures.find((n) => n.increased_stat?.name === increased && n.decreased_stat?.name === decreased);
+  if (match || increased !== decreased) return match;
+  return natures.find((n) => n.name === NEUTRAL_NATURES[increased]);
+}
+
+export async function getCharacteristics(): Promise<CharacteristicData[]> {
+  const list = await listResource('characteristic', 100);
+  const characteristics = await Promise.all(list.results.map((c) => getCharacteristic(getIdFromUrl(c.url))));
+  return characteristics.sort((a, b) => a.id - b.id);
+}
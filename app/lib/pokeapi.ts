@@ -0,0 +1,184 @@
+import { cached } from './cache';
+import { RequestScheduler } from './scheduler';
+import type {
+  AbilityData,
+  BerryData,
+  CharacteristicData,
+  EvolutionChainData,
+  GenerationData,
+  ItemCategoryData,
+  ItemData,
+  LocationAreaData,
+  LocationData,
+  LocationEncounter,
+  MoveData,
+  NamedAPIResourceList,
+  NatureData,
+  PokemonData,
+  PokemonFormData,
+  PokemonSpeciesData,
+  PokedexData,
+  RegionData,
+  TypeData,
+} from './types';
+
+const DEFAULT_BASE_URL = 'https://pokeapi.co/api/v2';
+
+// Set NEXT_PUBLIC_POKEAPI_BASE_URL to point the whole app at a local PokeAPI
+// mirror or a fixture server, e.g. http://localhost:8000/api/v2
+export const POKEAPI_BASE_URL = (process.env.NEXT_PUBLIC_POKEAPI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+export class PokeApiError extends Error {
+  status: number;
+  path: string;
+  retryAfterMs?: number;
+
+  constructor(status: number, path: string, retryAfterMs?: number) {
+    const endpoint = path.replace(/^\/+/, '').split(/[/?]/)[0] || 'resource';
+    const label = endpoint
+      .split('-')
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+    super(status === 404 ? `${label} not found` : `Failed to load ${label.toLowerCase()} (HTTP ${status})`);
+    this.name = 'PokeApiError';
+    this.status = status;
+    this.path = path;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Rate limits, server errors and network failures are worth another try;
+// anything else (404s in particular) is final.
+function isRetryable(error: unknown): boolean {
+  if (error instanceof PokeApiError) return error.status === 429 || error.status >= 500;
+  return error instanceof TypeError;
+}
+
+const scheduler = new RequestScheduler({
+  concurrency: typeof window === 'undefined' ? 16 : 8,
+  retries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  shouldRetry: isRetryable,
+  retryAfterMs: (error) => (error instanceof PokeApiError ? error.retryAfterMs : undefined),
+});
+
+// Resource URLs returned by PokeAPI are absolute and point at the public
+// instance; rewrite them so they go through the configured base URL too.
+export function resolveUrl(pathOrUrl: string): string {
+  if (pathOrUrl.startsWith(DEFAULT_BASE_URL)) {
+    return POKEAPI_BASE_URL + pathOrUrl.slice(DEFAULT_BASE_URL.length);
+  }
+  if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+  return `${POKEAPI_BASE_URL}/${pathOrUrl.replace(/^\/+/, '')}`;
+}
+
+function pathOf(url: string): string {
+  return url.startsWith(POKEAPI_BASE_URL) ? url.slice(POKEAPI_BASE_URL.length) : url;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new PokeApiError(response.status, pathOf(url), retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  return (await response.json()) as T;
+}
+
+// Every request is queued on the shared scheduler (bounded concurrency,
+// backoff on 429/5xx, in-flight dedup) and, in the browser, goes through the
+// persistent cache in ./cache.
+export function fetchResource<T>(pathOrUrl: string): Promise<T> {
+  const url = resolveUrl(pathOrUrl);
+  return cached(url, () => scheduler.run(url, () => fetchJson<T>(url)));
+}
+
+export function getIdFromUrl(url: string): number {
+  const matches = url.match(/\/(\d+)\/?$/);
+  return matches ? parseInt(matches[1], 10) : 0;
+}
+
+export function getPokemonSpriteUrl(id: number): string {
+  return `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/${id}.png`;
+}
+
+export function getItemSpriteUrl(name: string): string {
+  return `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/items/${name}.png`;
+}
+
+export function listResource(resource: string, limit: number): Promise<NamedAPIResourceList> {
+  return fetchResource<NamedAPIResourceList>(`/${resource}?limit=${limit}`);
+}
+
+export function getPokemon(nameOrId: string | number): Promise<PokemonData> {
+  return fetchResource<PokemonData>(`/pokemon/${nameOrId}`);
+}
+
+export function getPokemonEncounters(pokemon: PokemonData): Promise<LocationEncounter[]> {
+  return fetchResource<LocationEncounter[]>(pokemon.location_area_encounters || `/pokemon/${pokemon.id}/encounters`);
+}
+
+export function getSpecies(nameOrId: string | number): Promise<PokemonSpeciesData> {
+  return fetchResource<PokemonSpeciesData>(`/pokemon-species/${nameOrId}`);
+}
+
+export function getPokemonForm(nameOrId: string | number): Promise<PokemonFormData> {
+  return fetchResource<PokemonFormData>(`/pokemon-form/${nameOrId}`);
+}
+
+export function getEvolutionChain(id: number): Promise<EvolutionChainData> {
+  return fetchResource<EvolutionChainData>(`/evolution-chain/${id}`);
+}
+
+export function getMove(nameOrId: string | number): Promise<MoveData> {
+  return fetchResource<MoveData>(`/move/${nameOrId}`);
+}
+
+export function getLocation(nameOrId: string | number): Promise<LocationData> {
+  return fetchResource<LocationData>(`/location/${nameOrId}`);
+}
+
+export function getLocationArea(nameOrId: string | number): Promise<LocationAreaData> {
+  return fetchResource<LocationAreaData>(`/location-area/${nameOrId}`);
+}
+
+export function getGeneration(nameOrId: string | number): Promise<GenerationData> {
+  return fetchResource<GenerationData>(`/generation/${nameOrId}`);
+}
+
+export function getRegion(nameOrId: string | number): Promise<RegionData> {
+  return fetchResource<RegionData>(`/region/${nameOrId}`);
+}
+
+export function getPokedex(nameOrId: string | number): Promise<PokedexData> {
+  return fetchResource<PokedexData>(`/pokedex/${nameOrId}`);
+}
+
+export function getType(nameOrId: string | number): Promise<TypeData> {
+  return fetchResource<TypeData>(`/type/${nameOrId}`);
+}
+
+export function getAbility(nameOrId: string | number): Promise<AbilityData> {
+  return fetchResource<AbilityData>(`/ability/${nameOrId}`);
+}
+
+export function getNature(nameOrId: string | number): Promise<NatureData> {
+  return fetchResource<NatureData>(`/nature/${nameOrId}`);
+}
+
+export function getCharacteristic(id: number): Promise<CharacteristicData> {
+  return fetchResource<CharacteristicData>(`/characteristic/${id}`);
+}
+
+export function getItem(nameOrId: string | number): Promise<ItemData> {
+  return fetchResource<ItemData>(`/item/${nameOrId}`);
+}
+
+export function getItemCategory(nameOrId: string | number): Promise<ItemCategoryData> {
+  return fetchResource<ItemCategoryData>(`/item-category/${nameOrId}`);
+}
+
+export function getBerry(nameOrId: string | number): Promise<BerryData> {
+  return fetchResource<BerryData>(`/berry/${nameOrId}`);
+}
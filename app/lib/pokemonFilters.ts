@@ -0,0 +1,150 @@
+// Filter and sort state for the Pokemon list, with a round trip to the URL
+// query string so a filtered view can be bookmarked and shared.
+//
+// Query format: q=char&type=fire,flying&typeMode=exactly&gen=generation-i
+// &ability=blaze&speed=100-&bst=500-600&status=legendary,mythical&sort=bst&dir=desc
+// Ranges are "min-max" with either end optional.
+
+import { inRange, isOpenRange, type Range } from './range';
+import { baseStatTotal, STAT_NAMES, type StatName } from './stats';
+import type { PokemonSummary } from './types';
+
+export type PokemonStatus = 'legendary' | 'mythical' | 'baby';
+
+export const POKEMON_STATUSES: PokemonStatus[] = ['legendary', 'mythical', 'baby'];
+
+export type PokemonSortKey = 'id' | 'name' | 'bst' | StatName;
+
+export interface PokemonFilters {
+  q: string;
+  // At most two types
+  types: string[];
+  // 'includes': has every selected type; 'exactly': has those types and no others
+  typeMode: 'includes' | 'exactly';
+  generation: string;
+  ability: string;
+  stats: Partial<Record<StatName, Range>>;
+  bst: Range | null;
+  // Matches Pokemon with any of the selected statuses
+  statuses: PokemonStatus[];
+  sort: PokemonSortKey;
+  descending: boolean;
+}
+
+export const DEFAULT_FILTERS: PokemonFilters = {
+  q: '',
+  types: [],
+  typeMode: 'includes',
+  generation: '',
+  ability: '',
+  stats: {},
+  bst: null,
+  statuses: [],
+  sort: 'id',
+  descending: false,
+};
+
+const SORT_KEYS: PokemonSortKey[] = ['id', 'name', 'bst', ...STAT_NAMES];
+
+function parseBound(value: string): number | null {
+  if (value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseRange(value: string | null): Range | null {
+  if (!value) return null;
+  const [min = '', max = ''] = value.split('-');
+  const range: Range = [parseBound(min), parseBound(max)];
+  return range[0] === null && range[1] === null ? null : range;
+}
+
+function formatRange([min, max]: Range): string {
+  return `${min ?? ''}-${max ?? ''}`;
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+export function parseFilters(params: URLSearchParams): PokemonFilters {
+  const stats: Partial<Record<StatName, Range>> = {};
+  for (const stat of STAT_NAMES) {
+    const range = parseRange(params.get(stat));
+    if (range) stats[stat] = range;
+  }
+  const sort = params.get('sort') as PokemonSortKey | null;
+
+  return {
+    q: params.get('q') ?? '',
+    types: parseList(params.get('type')).slice(0, 2),
+    typeMode: params.get('typeMode') === 'exactly' ? 'exactly' : 'includes',
+    generation: params.get('gen') ?? '',
+    ability: params.get('ability') ?? '',
+    stats,
+    bst: parseRange(params.get('bst')),
+    statuses: parseList(params.get('status')).filter((s): s is PokemonStatus =>
+      POKEMON_STATUSES.includes(s as PokemonStatus)
+    ),
+    sort: sort && SORT_KEYS.includes(sort) ? sort : 'id',
+    descending: params.get('dir') === 'desc',
+  };
+}
+
+// Only non-default values are written, so an unfiltered list has a clean URL.
+export function filtersToParams(filters: PokemonFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  if (filters.types.length > 0) params.set('type', filters.types.join(','));
+  if (filters.types.length > 0 && filters.typeMode === 'exactly') params.set('typeMode', 'exactly');
+  if (filters.generation) params.set('gen', filters.generation);
+  if (filters.ability) params.set('ability', filters.ability);
+  for (const stat of STAT_NAMES) {
+    const range = filters.stats[stat];
+    if (range && !isOpenRange(range)) params.set(stat, formatRange(range));
+  }
+  if (filters.bst && !isOpenRange(filters.bst)) params.set('bst', formatRange(filters.bst));
+  if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+  if (filters.sort !== 'id') params.set('sort', filters.sort);
+  if (filters.descending) params.set('dir', 'desc');
+  return params;
+}
+
+export function matchesFilters(pokemon: PokemonSummary, filters: PokemonFilters): boolean {
+  if (filters.q) {
+    const search = filters.q.toLowerCase();
+    if (!pokemon.name.toLowerCase().includes(search) && !pokemon.id.toString().includes(search)) return false;
+  }
+  if (!filters.types.every((t) => pokemon.types.includes(t))) return false;
+  if (filters.typeMode === 'exactly' && filters.types.length > 0 && pokemon.types.length !== filters.types.length) {
+    return false;
+  }
+  if (filters.generation && pokemon.generation !== filters.generation) return false;
+  if (filters.ability && !pokemon.abilities.includes(filters.ability)) return false;
+  if (!STAT_NAMES.every((stat) => inRange(pokemon.stats[stat], filters.stats[stat]))) return false;
+  if (!inRange(baseStatTotal(pokemon.stats), filters.bst)) return false;
+  if (filters.statuses.length > 0) {
+    const status: Record<PokemonStatus, boolean> = {
+      legendary: pokemon.isLegendary,
+      mythical: pokemon.isMythical,
+      baby: pokemon.isBaby,
+    };
+    if (!filters.statuses.some((s) => status[s])) return false;
+  }
+  return true;
+}
+
+export function sortPokemon(list: PokemonSummary[], filters: PokemonFilters): PokemonSummary[] {
+  const value = (p: PokemonSummary): number | string => {
+    if (filters.sort === 'id' || filters.sort === 'name') return p[filters.sort];
+    if (filters.sort === 'bst') return baseStatTotal(p.stats);
+    return p.stats[filters.sort];
+  };
+  const direction = filters.descending ? -1 : 1;
+  return [...list].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    return order * direction || a.id - b.id;
+  });
+}
@@ -0,0 +1,12 @@
+// Inclusive numeric range used by the list filters; either end may be open.
+export type Range = [number | null, number | null];
+
+export function isOpenRange(range: Range | null | undefined): boolean {
+  return !range || (range[0] === null && range[1] === null);
+}
+
+export function inRange(value: number, range: Range | null | undefined): boolean {
+  if (!range) return true;
+  const [min, max] = range;
+  return (min === null || value >= min) && (max === null || value <= max);
+}
@@ -0,0 +1,89 @@
+// Bounded-concurrency request scheduler with retry and in-flight dedup.
+//
+// At most `concurrency` tasks run at once; the rest wait in FIFO order.
+// Tasks that fail with a retryable error are retried with exponential
+// backoff (plus jitter), and callers asking for a key that is already in
+// flight share the same promise instead of issuing a second request.
+
+export interface SchedulerOptions {
+  concurrency: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  // Optional server hint (e.g. a Retry-After header) that overrides backoff.
+  retryAfterMs?: (error: unknown) => number | undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RequestScheduler {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private options: SchedulerOptions) {}
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = this.withRetry(task).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async withRetry<T>(task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withSlot(task);
+      } catch (e) {
+        if (attempt >= this.options.retries || !this.options.shouldRetry(e)) throw e;
+        await sleep(this.delayFor(attempt, e));
+      }
+    }
+  }
+
+  private delayFor(attempt: number, error: unknown): number {
+    const hinted = this.options.retryAfterMs?.(error);
+    if (hinted !== undefined) return Math.min(hinted, this.options.maxDelayMs);
+    const backoff = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+    } else {
+      // The releasing task hands its slot over directly, so `active` is unchanged.
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+export interface SettledBatch<T, R> {
+  results: R[];
+  failed: T[];
+}
+
+// Runs `fn` for every item and splits the outcome into successes and the
+// items that failed, so callers can report and retry them.
+export async function settleAll<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<SettledBatch<T, R>> {
+  const outcomes = await Promise.allSettled(items.map(fn));
+  const batch: SettledBatch<T, R> = { results: [], failed: [] };
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') batch.results.push(outcome.value);
+    else batch.failed.push(items[i]);
+  });
+  return batch;
+}
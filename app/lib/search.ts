@@ -0,0 +1,108 @@
+// Entries for the global search: every Pokemon, move, ability, item,
+// location, type and generation, each with the page it opens.
+
+import { formatName } from './format';
+import { listResource } from './pokeapi';
+import { fetchIndex } from './summaries';
+import { TYPE_NAMES } from './typeChart';
+
+export type SearchGroup = 'pokemon' | 'moves' | 'abilities' | 'items' | 'locations' | 'types' | 'generations';
+
+export const SEARCH_GROUP_LABELS: Record<SearchGroup, string> = {
+  pokemon: 'Pokemon',
+  moves: 'Moves',
+  abilities: 'Abilities',
+  items: 'Items',
+  locations: 'Locations',
+  types: 'Types',
+  generations: 'Generations',
+};
+
+export const SEARCH_GROUPS = Object.keys(SEARCH_GROUP_LABELS) as SearchGroup[];
+
+export interface SearchEntry {
+  group: SearchGroup;
+  name: string;
+  label: string;
+  href: string;
+  detail?: string;
+}
+
+export interface SearchResults {
+  group: SearchGroup;
+  entries: SearchEntry[];
+}
+
+function entry(group: SearchGroup, name: string, href: string, detail?: string): SearchEntry {
+  return { group, name, label: formatName(name), href, detail };
+}
+
+async function loadGroup(group: SearchGroup): Promise<SearchEntry[]> {
+  switch (group) {
+    case 'pokemon':
+      return (await fetchIndex('pokemon')).results.map((p) =>
+        entry(group, p.name, `/pokemon/${p.name}`, p.types.map(formatName).join(' / '))
+      );
+    case 'moves':
+      return (await fetchIndex('moves')).results.map((m) => entry(group, m.name, `/moves/${m.name}`, formatName(m.type)));
+    case 'abilities':
+      return (await fetchIndex('abilities')).results.map((a) => entry(group, a.name, `/abilities/${a.name}`));
+    case 'items':
+      return (await fetchIndex('items')).results.map((i) =>
+        entry(group, i.name, `/items/${i.name}`, formatName(i.category))
+      );
+    case 'locations':
+      return (await fetchIndex('locations')).results.map((l) =>
+        entry(group, l.name, `/locations/${l.name}`, l.region ? formatName(l.region) : undefined)
+      );
+    case 'types':
+      return TYPE_NAMES.map((t) => entry(group, t, `/types/${t}`));
+    case 'generations':
+      return (await listResource('generation', 100)).results.map((g) => entry(group, g.name, `/generations/${g.name}`));
+  }
+}
+
+const loadedGroups = new Map<SearchGroup, SearchEntry[]>();
+
+// Each group loads on its own so the quick ones are searchable while slower
+// indexes are still building. A loaded group is kept for later searches; one
+// that fails is tried again next time.
+export async function loadSearchGroup(group: SearchGroup): Promise<SearchEntry[]> {
+  const loaded = loadedGroups.get(group);
+  if (loaded) return loaded;
+  const entries = await loadGroup(group);
+  loadedGroups.set(group, entries);
+  return entries;
+}
+
+// Exact matches first, then prefix matches, then matches anywhere in the
+// name; Infinity for no match.
+function rank(entry: SearchEntry, query: string): number {
+  const name = entry.name;
+  const label = entry.label.toLowerCase();
+  if (name === query || label === query) return 0;
+  if (name.startsWith(query) || label.startsWith(query)) return 1;
+  if (name.includes(query) || label.includes(query)) return 2;
+  return Infinity;
+}
+
+// Best matches per group, in the groups' usual order; empty groups are dropped.
+export function searchEntries(entries: SearchEntry[], query: string, perGroup = 5): SearchResults[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+  // "mr mime" should find mr-mime
+  const hyphenated = normalized.replace(/\s+/g, '-');
+
+  const ranked = entries
+    .map((e) => ({ entry: e, rank: Math.min(rank(e, normalized), rank(e, hyphenated)) }))
+    .filter((r) => Number.isFinite(r.rank))
+    .sort((a, b) => a.rank - b.rank || a.entry.name.length - b.entry.name.length);
+
+  return SEARCH_GROUPS.map((group) => ({
+    group,
+    entries: ranked
+      .filter((r) => r.entry.group === group)
+      .slice(0, perGroup)
+      .map((r) => r.entry),
+  })).filter((results) => results.entries.length > 0);
+}
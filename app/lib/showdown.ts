@@ -0,0 +1,226 @@
+// Pokemon Showdown team text format:
+//
+//   Garchomp (M) @ Choice Scarf
+//   Ability: Rough Skin
+//   Level: 50
+//   EVs: 252 Atk / 4 SpD / 252 Spe
+//   Jolly Nature
+//   IVs: 0 SpA
+//   - Earthquake
+//   - Outrage
+//
+// Sets are separated by blank lines. Names are converted to PokeAPI resource
+// names on import and checked against PokeAPI before the team is saved.
+
+import { capitalizeFirst, formatName, toResourceName } from './format';
+import { getAbility, getMove, getPokemon, getSpecies, PokeApiError } from './pokeapi';
+import { STAT_ABBREVIATIONS, STAT_NAMES, type StatName } from './stats';
+import { MAX_MOVES, MAX_TEAM_SIZE, type TeamMember } from './team';
+
+export interface ShowdownError {
+  line: number;
+  message: string;
+}
+
+interface ParsedSet {
+  member: TeamMember;
+  speciesLine: number;
+  abilityLine?: number;
+  moveLines: number[];
+}
+
+// Lines Showdown writes that have no counterpart in a saved team.
+const IGNORED_KEYS = ['Shiny', 'Tera Type', 'Happiness', 'Gigantamax', 'Dynamax Level', 'Hidden Power', 'Pokeball'];
+
+const STAT_BY_ABBREVIATION = new Map<string, StatName>(
+  STAT_NAMES.map((stat) => [STAT_ABBREVIATIONS[stat].toLowerCase(), stat])
+);
+
+function parseStatSpread(value: string, line: number, errors: ShowdownError[]): Partial<Record<StatName, number>> {
+  const spread: Partial<Record<StatName, number>> = {};
+  for (const part of value.split('/')) {
+    const match = part.trim().match(/^(\d+)\s+(\w+)$/);
+    const stat = match && STAT_BY_ABBREVIATION.get(match[2].toLowerCase());
+    if (!match || !stat) {
+      errors.push({ line, message: `Can't read stat "${part.trim()}"` });
+      continue;
+    }
+    spread[stat] = Number(match[1]);
+  }
+  return spread;
+}
+
+// "Nickname (Species) (M) @ Item", where everything but the species is optional.
+function parseHeader(header: string): Pick<TeamMember, 'nickname' | 'gender' | 'item'> & { species: string } {
+  const [left, item] = header.split(/\s+@\s+/, 2);
+  let rest = left.trim();
+  let gender: 'M' | 'F' | undefined;
+  const genderMatch = rest.match(/\s+\((M|F)\)$/);
+  if (genderMatch) {
+    gender = genderMatch[1] as 'M' | 'F';
+    rest = rest.slice(0, genderMatch.index);
+  }
+  const nicknameMatch = rest.match(/^(.*\S)\s+\(([^()]+)\)$/);
+  return {
+    species: nicknameMatch ? nicknameMatch[2] : rest,
+    nickname: nicknameMatch ? nicknameMatch[1] : undefined,
+    gender,
+    item: item ? toResourceName(item) : undefined,
+  };
+}
+
+function parseSets(text: string): { sets: ParsedSet[]; errors: ShowdownError[] } {
+  const sets: ParsedSet[] = [];
+  const errors: ShowdownError[] = [];
+  let current: ParsedSet | null = null;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const content = raw.trim();
+    if (!content) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      const { species, ...header } = parseHeader(content);
+      current = { member: { pokemon: toResourceName(species), moves: [], ...header }, speciesLine: line, moveLines: [] };
+      sets.push(current);
+      return;
+    }
+
+    const set: ParsedSet = current;
+    const keyMatch = content.match(/^([^:]+):\s*(.*)$/);
+    if (content.startsWith('-') || content.startsWith('~')) {
+      // "Hidden Power [Fire]" is still the move hidden-power
+      const move = toResourceName(content.slice(1).replace(/\[.*\]/, ''));
+      if (set.member.moves.length >= MAX_MOVES) {
+        errors.push({ line, message: `More than ${MAX_MOVES} moves` });
+      } else {
+        set.member.moves.push(move);
+        set.moveLines.push(line);
+      }
+    } else if (/^\w+\s+Nature$/i.test(content)) {
+      set.member.nature = content.split(/\s+/)[0].toLowerCase();
+    } else if (keyMatch) {
+      const [, key, value] = keyMatch;
+      if (key === 'Ability') {
+        set.member.ability = toResourceName(value);
+        set.abilityLine = line;
+      } else if (key === 'Level') {
+        const level = Number(value);
+        if (Number.isInteger(level) && level >= 1 && level <= 100) set.member.level = level;
+        else errors.push({ line, message: `Invalid level "${value}"` });
+      } else if (key === 'EVs') {
+        set.member.evs = parseStatSpread(value, line, errors);
+      } else if (key === 'IVs') {
+        set.member.ivs = parseStatSpread(value, line, errors);
+      } else if (!IGNORED_KEYS.includes(key)) {
+        errors.push({ line, message: `Unknown field "${key}"` });
+      }
+    } else {
+      errors.push({ line, message: `Can't read "${content}"` });
+    }
+  });
+
+  if (sets.length > MAX_TEAM_SIZE) {
+    errors.push({ line: sets[MAX_TEAM_SIZE].speciesLine, message: `A team holds at most ${MAX_TEAM_SIZE} Pokemon` });
+  }
+  return { sets: sets.slice(0, MAX_TEAM_SIZE), errors };
+}
+
+function isNotFound(e: unknown): boolean {
+  return e instanceof PokeApiError && e.status === 404;
+}
+
+// Species names like "Urshifu" have no Pokemon of the same name; fall back to
+// the species' default variety.
+async function resolvePokemon(name: string): Promise<string> {
+  try {
+    return (await getPokemon(name)).name;
+  } catch (e) {
+    if (!isNotFound(e)) throw e;
+    const species = await getSpecies(name);
+    const variety = species.varieties.find((v) => v.is_default) ?? species.varieties[0];
+    if (!variety) throw e;
+    return variety.pokemon.name;
+  }
+}
+
+// Checks one name and records an error when PokeAPI doesn't know it.
+async function check(
+  lookup: () => Promise<unknown>,
+  line: number,
+  label: string,
+  name: string,
+  errors: ShowdownError[]
+): Promise<void> {
+  try {
+    await lookup();
+  } catch (e) {
+    errors.push({
+      line,
+      message: isNotFound(e) ? `Unknown ${label} "${formatName(name)}"` : `Couldn't check ${label} "${formatName(name)}"`,
+    });
+  }
+}
+
+// Parses a Showdown export and validates every species, ability and move
+// against PokeAPI. Errors carry 1-based line numbers and are sorted by line.
+export async function importShowdown(text: string): Promise<{ members: TeamMember[]; errors: ShowdownError[] }> {
+  const { sets, errors } = parseSets(text);
+
+  await Promise.all(
+    sets.flatMap(({ member, speciesLine, abilityLine, moveLines }) => {
+      const checks = [
+        check(
+          async () => {
+            member.pokemon = await resolvePokemon(member.pokemon);
+          },
+          speciesLine,
+          'Pokemon',
+          member.pokemon,
+          errors
+        ),
+        ...member.moves.map((move, i) => check(() => getMove(move), moveLines[i], 'move', move, errors)),
+      ];
+      const ability = member.ability;
+      if (ability && abilityLine) checks.push(check(() => getAbility(ability), abilityLine, 'ability', ability, errors));
+      return checks;
+    })
+  );
+
+  errors.sort((a, b) => a.line - b.line);
+  return { members: sets.map((s) => s.member), errors };
+}
+
+// Species names keep their hyphens ("Rotom-Wash"), which is how Showdown writes forms.
+function speciesName(name: string): string {
+  return name.split('-').map(capitalizeFirst).join('-');
+}
+
+function formatSpread(spread: Partial<Record<StatName, number>>): string {
+  return STAT_NAMES.filter((stat) => spread[stat] !== undefined)
+    .map((stat) => `${spread[stat]} ${STAT_ABBREVIATIONS[stat]}`)
+    .join(' / ');
+}
+
+export function exportShowdown(members: TeamMember[]): string {
+  return members
+    .map((member) => {
+      const species = speciesName(member.pokemon);
+      let header = member.nickname ? `${member.nickname} (${species})` : species;
+      if (member.gender) header += ` (${member.gender})`;
+      if (member.item) header += ` @ ${formatName(member.item)}`;
+
+      const lines = [header];
+      if (member.ability) lines.push(`Ability: ${formatName(member.ability)}`);
+      if (member.level !== undefined && member.level !== 100) lines.push(`Level: ${member.level}`);
+      if (member.evs && Object.keys(member.evs).length > 0) lines.push(`EVs: ${formatSpread(member.evs)}`);
+      if (member.nature) lines.push(`${capitalizeFirst(member.nature)} Nature`);
+      if (member.ivs && Object.keys(member.ivs).length > 0) lines.push(`IVs: ${formatSpread(member.ivs)}`);
+      for (const move of member.moves) lines.push(`- ${formatName(move)}`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
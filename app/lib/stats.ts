@@ -0,0 +1,74 @@
+export type StatName = 'hp' | 'attack' | 'defense' | 'special-attack' | 'special-defense' | 'speed';
+
+export const STAT_NAMES: StatName[] = ['hp', 'attack', 'defense', 'special-attack', 'special-defense', 'speed'];
+
+export const STAT_LABELS: Record<StatName, string> = {
+  hp: 'HP',
+  attack: 'Attack',
+  defense: 'Defense',
+  'special-attack': 'Sp. Attack',
+  'special-defense': 'Sp. Defense',
+  speed: 'Speed',
+};
+
+export const STAT_ABBREVIATIONS: Record<StatName, string> = {
+  hp: 'HP',
+  attack: 'Atk',
+  defense: 'Def',
+  'special-attack': 'SpA',
+  'special-defense': 'SpD',
+  speed: 'Spe',
+};
+
+// Base stats keyed by name, from a Pokemon's `stats` list.
+export function baseStats(stats: Array<{ base_stat: number; stat: { name: string } }>): Record<StatName, number> {
+  const result = uniformSpread(0);
+  for (const s of stats) result[s.stat.name as StatName] = s.base_stat;
+  return result;
+}
+
+export function baseStatTotal(stats: Record<StatName, number>): number {
+  return STAT_NAMES.reduce((sum, stat) => sum + stats[stat], 0);
+}
+
+export const MAX_LEVEL = 100;
+export const MAX_IV = 31;
+export const MAX_EV = 252;
+export const MAX_TOTAL_EVS = 510;
+
+// Reads a level typed into an input, keeping it within 1-100.
+export function clampLevel(value: string): number {
+  return Math.min(Math.max(Math.floor(Number(value)) || 1, 1), MAX_LEVEL);
+}
+
+// The stat formula used since Generation III. Natures never touch HP, and
+// Shedinja's HP is always 1.
+export function calculateStat(
+  stat: StatName,
+  base: number,
+  level: number,
+  iv: number,
+  ev: number,
+  natureMultiplier = 1
+): number {
+  const core = Math.floor(((2 * base + iv + Math.floor(ev / 4)) * level) / 100);
+  if (stat === 'hp') return base === 1 ? 1 : core + level + 10;
+  // Integer maths as in the games; 1.1 and 0.9 aren't exact in floating point
+  return Math.floor(((core + 5) * Math.round(natureMultiplier * 100)) / 100);
+}
+
+export function calculateStats(
+  base: Record<StatName, number>,
+  level: number,
+  ivs: Record<StatName, number>,
+  evs: Record<StatName, number>,
+  natureMultipliers: Partial<Record<StatName, number>> = {}
+): Record<StatName, number> {
+  return Object.fromEntries(
+    STAT_NAMES.map((stat) => [stat, calculateStat(stat, base[stat], level, ivs[stat], evs[stat], natureMultipliers[stat])])
+  ) as Record<StatName, number>;
+}
+
+export function uniformSpread(value: number): Record<StatName, number> {
+  return Object.fromEntries(STAT_NAMES.map((stat) => [stat, value])) as Record<StatName, number>;
+}
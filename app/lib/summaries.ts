@@ -0,0 +1,277 @@
+import { cached, refreshCached } from './cache';
+import { describeEvolutionDetails } from './evolution';
+import { FIRST_ALTERNATE_ID, formKind } from './forms';
+import { fetchResource, getIdFromUrl, getPokemonSpriteUrl, listResource } from './pokeapi';
+import { settleAll } from './scheduler';
+import { baseStats } from './stats';
+import type {
+  AbilityData,
+  AbilitySummary,
+  BerryData,
+  BerrySummary,
+  EvolutionChainData,
+  EvolutionChainLink,
+  EvolutionStep,
+  EvolutionSummary,
+  FormSummary,
+  ItemCategoryData,
+  ItemData,
+  ItemSummary,
+  LocationData,
+  LocationSummary,
+  MoveData,
+  MoveSummary,
+  NamedAPIResource,
+  PokemonData,
+  PokemonFormData,
+  PokemonSpeciesData,
+  PokemonSummary,
+  SummaryIndex,
+} from './types';
+
+interface IndexSummaries {
+  pokemon: PokemonSummary;
+  moves: MoveSummary;
+  locations: LocationSummary;
+  abilities: AbilitySummary;
+  forms: FormSummary;
+  items: ItemSummary;
+  evolutions: EvolutionSummary;
+  berries: BerrySummary;
+}
+
+export type IndexName = keyof IndexSummaries;
+
+export const INDEX_NAMES: IndexName[] = [
+  'pokemon',
+  'moves',
+  'locations',
+  'abilities',
+  'forms',
+  'items',
+  'evolutions',
+  'berries',
+];
+
+export interface IndexOptions {
+  // Re-request only the entries that failed during the last build.
+  retryFailed?: boolean;
+}
+
+interface IndexSpec<D, S extends { id: number }> {
+  resource: string;
+  limit: number;
+  // May load related resources, e.g. the species behind a Pokemon.
+  summarize: (data: D) => S | Promise<S>;
+  // Restricts the index to a subset of the upstream list.
+  include?: (entry: NamedAPIResource) => boolean;
+  // Unnamed resources (evolution chains) are listed and fetched by id.
+  byId?: boolean;
+}
+
+const INDEX_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function summarizePokemon(p: PokemonData): Promise<PokemonSummary> {
+  const species = await fetchResource<PokemonSpeciesData>(p.species.url);
+  return {
+    id: p.id,
+    name: p.name,
+    types: [...p.types].sort((a, b) => a.slot - b.slot).map((t) => t.type.name),
+    sprite: p.sprites.front_default || getPokemonSpriteUrl(p.id),
+    stats: baseStats(p.stats),
+    abilities: p.abilities.map((a) => a.ability.name),
+    generation: species.generation.name,
+    isLegendary: species.is_legendary,
+    isMythical: species.is_mythical,
+    isBaby: species.is_baby,
+  };
+}
+
+function summarizeMove(m: MoveData): MoveSummary {
+  return {
+    id: m.id,
+    name: m.name,
+    type: m.type.name,
+    damageClass: m.damage_class?.name ?? null,
+    power: m.power,
+    accuracy: m.accuracy,
+    pp: m.pp,
+    priority: m.priority,
+    generation: m.generation.name,
+  };
+}
+
+function summarizeLocation(l: LocationData): LocationSummary {
+  return {
+    id: l.id,
+    name: l.name,
+    region: l.region?.name ?? null,
+  };
+}
+
+function summarizeAbility(a: AbilityData): AbilitySummary {
+  return {
+    id: a.id,
+    name: a.name,
+    generation: a.generation.name,
+    shortEffect: a.effect_entries.find((e) => e.language.name === 'en')?.short_effect ?? null,
+    pokemonCount: a.pokemon.length,
+  };
+}
+
+function summarizeForm(f: PokemonFormData): FormSummary {
+  return {
+    id: f.id,
+    name: f.name,
+    pokemon: f.pokemon.name,
+    kind: formKind(f),
+    sprite: f.sprites.front_default,
+  };
+}
+
+// Some two thousand items share a few dozen categories, so each category is
+// fetched once and shared; a failed fetch is dropped so the next item retries it.
+const itemCategories = new Map<string, Promise<ItemCategoryData>>();
+
+function getItemCategoryOnce(url: string): Promise<ItemCategoryData> {
+  let promise = itemCategories.get(url);
+  if (!promise) {
+    const request = fetchResource<ItemCategoryData>(url);
+    request.catch(() => {
+      if (itemCategories.get(url) === request) itemCategories.delete(url);
+    });
+    itemCategories.set(url, request);
+    promise = request;
+  }
+  return promise;
+}
+
+async function summarizeItem(i: ItemData): Promise<ItemSummary> {
+  const category = await getItemCategoryOnce(i.category.url);
+  return {
+    id: i.id,
+    name: i.name,
+    category: i.category.name,
+    pocket: category.pocket.name,
+    sprite: i.sprites.default,
+    cost: i.cost,
+    shortEffect: i.effect_entries.find((e) => e.language.name === 'en')?.short_effect ?? null,
+  };
+}
+
+function summarizeEvolutionChain(c: EvolutionChainData): EvolutionSummary {
+  const steps: EvolutionStep[] = [];
+  const walk = (link: EvolutionChainLink) => {
+    for (const next of link.evolves_to) {
+      const items = next.evolution_details.flatMap((d) => [d.item?.name, d.held_item?.name]);
+      steps.push({
+        from: link.species.name,
+        species: next.species.name,
+        speciesId: getIdFromUrl(next.species.url),
+        items: [...new Set(items.filter((item): item is string => !!item))],
+        methods: describeEvolutionDetails(next.evolution_details),
+      });
+      walk(next);
+    }
+  };
+  walk(c.chain);
+  return { id: c.id, steps };
+}
+
+function summarizeBerry(b: BerryData): BerrySummary {
+  return {
+    id: b.id,
+    name: b.name,
+    item: b.item.name,
+    firmness: b.firmness.name,
+    naturalGiftType: b.natural_gift_type.name,
+    naturalGiftPower: b.natural_gift_power,
+    flavors: Object.fromEntries(b.flavors.map((f) => [f.flavor.name, f.potency])),
+  };
+}
+
+const specs: { [N in IndexName]: IndexSpec<never, IndexSummaries[N]> } = {
+  pokemon: { resource: 'pokemon', limit: 10000, summarize: summarizePokemon },
+  moves: { resource: 'move', limit: 10000, summarize: summarizeMove },
+  locations: { resource: 'location', limit: 1000, summarize: summarizeLocation },
+  abilities: { resource: 'ability', limit: 1000, summarize: summarizeAbility },
+  forms: {
+    resource: 'pokemon-form',
+    limit: 10000,
+    summarize: summarizeForm,
+    include: (entry) => getIdFromUrl(entry.url) >= FIRST_ALTERNATE_ID,
+  },
+  items: { resource: 'item', limit: 10000, summarize: summarizeItem },
+  evolutions: { resource: 'evolution-chain', limit: 10000, summarize: summarizeEvolutionChain, byId: true },
+  berries: { resource: 'berry', limit: 1000, summarize: summarizeBerry },
+};
+
+async function summarizeAll<D, S extends { id: number }>(
+  spec: IndexSpec<D, S>,
+  names: string[],
+  previous: S[] = []
+): Promise<SummaryIndex<S>> {
+  const { results, failed } = await settleAll(names, async (name) =>
+    spec.summarize(await fetchResource<D>(`/${spec.resource}/${name}`))
+  );
+  const merged = [...previous, ...results].sort((a, b) => a.id - b.id);
+  return { count: merged.length + failed.length, results: merged, failed };
+}
+
+async function buildIndex<D, S extends { id: number }>(spec: IndexSpec<D, S>): Promise<SummaryIndex<S>> {
+  const list = await listResource(spec.resource, spec.limit);
+  const entries = spec.include ? list.results.filter(spec.include) : list.results;
+  const names = [...entries]
+    .sort((a, b) => getIdFromUrl(a.url) - getIdFromUrl(b.url))
+    .map((e) => (spec.byId ? String(getIdFromUrl(e.url)) : e.name));
+  return summarizeAll(spec, names);
+}
+
+const indexCache = new Map<IndexName, { builtAt: number; promise: Promise<SummaryIndex<unknown>> }>();
+
+function remember<T>(name: IndexName, builtAt: number, promise: Promise<SummaryIndex<T>>): Promise<SummaryIndex<T>> {
+  indexCache.set(name, { builtAt, promise });
+  promise.catch(() => {
+    if (indexCache.get(name)?.promise === promise) indexCache.delete(name);
+  });
+  return promise;
+}
+
+// Server side: builds an index once and keeps it in memory for a day.
+// Concurrent requests share the same in-flight build.
+export function getCachedIndex<N extends IndexName>(
+  name: N,
+  options: IndexOptions = {}
+): Promise<SummaryIndex<IndexSummaries[N]>> {
+  const spec = specs[name] as IndexSpec<unknown, IndexSummaries[N]>;
+  const entry = indexCache.get(name);
+  if (!entry || Date.now() - entry.builtAt >= INDEX_TTL_MS) {
+    return remember(name, Date.now(), buildIndex(spec));
+  }
+
+  const current = entry.promise as Promise<SummaryIndex<IndexSummaries[N]>>;
+  if (!options.retryFailed) return current;
+  return remember(
+    name,
+    entry.builtAt,
+    current.then((index) => (index.failed.length > 0 ? summarizeAll(spec, index.failed, index.results) : index))
+  );
+}
+
+// Bump whenever a summary shape changes, so neither the browser cache nor a
+// shared HTTP cache hands out indexes in the old shape.
+const INDEX_FORMAT = 3;
+
+// Client side: loads an index from the matching /api/index/* route.
+export function fetchIndex<N extends IndexName>(
+  name: N,
+  options: IndexOptions = {}
+): Promise<SummaryIndex<IndexSummaries[N]>> {
+  const key = `/api/index/${name}?v=${INDEX_FORMAT}`;
+  const load = async () => {
+    const response = await fetch(options.retryFailed ? `${key}&retry=failed` : key);
+    if (!response.ok) throw new Error(`Failed to load ${name} index`);
+    return (await response.json()) as SummaryIndex<IndexSummaries[N]>;
+  };
+  return options.retryFailed ? refreshCached(key, load) : cached(key, load);
+}
@@ -0,0 +1,59 @@
+// Saved teams, kept in localStorage so they survive reloads without an account.
+
+import { createLocalStore } from './localStore';
+import type { StatName } from './stats';
+
+export const MAX_TEAM_SIZE = 6;
+export const MAX_MOVES = 4;
+
+const STORAGE_KEY = 'the-ultimate-pokedex:teams';
+
+export interface TeamMember {
+  pokemon: string;
+  moves: string[];
+  // Set details, mostly filled in by a Showdown import
+  nickname?: string;
+  gender?: 'M' | 'F';
+  item?: string;
+  ability?: string;
+  nature?: string;
+  level?: number;
+  evs?: Partial<Record<StatName, number>>;
+  ivs?: Partial<Record<StatName, number>>;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+}
+
+export interface TeamStore {
+  teams: Team[];
+  activeId: string;
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createTeam(name: string, members: TeamMember[] = []): Team {
+  return { id: newId(), name, members };
+}
+
+function defaultStore(): TeamStore {
+  const team = createTeam('Team 1');
+  return { teams: [team], activeId: team.id };
+}
+
+export const teamStore = createLocalStore<TeamStore>(STORAGE_KEY, (stored) => {
+  const store = stored as TeamStore | undefined;
+  if (!store || !Array.isArray(store.teams) || store.teams.length === 0) return defaultStore();
+  if (!store.teams.some((t) => t.id === store.activeId)) return { ...store, activeId: store.teams[0].id };
+  return store;
+});
+
+// Returns a copy of the store with `team` replacing the team of the same id.
+export function withTeam(store: TeamStore, team: Team): TeamStore {
+  return { ...store, teams: store.teams.map((t) => (t.id === team.id ? team : t)) };
+}
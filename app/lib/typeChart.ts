@@ -0,0 +1,73 @@
+import type { TypeData } from './types';
+
+// The 18 battle types, in the order the games list them.
+export const TYPE_NAMES = [
+  'normal',
+  'fire',
+  'water',
+  'electric',
+  'grass',
+  'ice',
+  'fighting',
+  'poison',
+  'ground',
+  'flying',
+  'psychic',
+  'bug',
+  'rock',
+  'ghost',
+  'dragon',
+  'dark',
+  'steel',
+  'fairy',
+];
+
+export const MULTIPLIER_GROUPS = [4, 2, 1, 0.5, 0.25, 0];
+
+export function formatMultiplier(multiplier: number): string {
+  if (multiplier === 0.5) return '½x';
+  if (multiplier === 0.25) return '¼x';
+  return `${multiplier}x`;
+}
+
+// Matrix cell colour for a damage multiplier taken: immune, weak or resistant.
+export function defensiveCellClass(multiplier: number): string {
+  if (multiplier === 0) return 'bg-zinc-700 text-white';
+  if (multiplier > 1) return 'bg-red-500 text-white';
+  if (multiplier < 1) return 'bg-green-500 text-white';
+  return '';
+}
+
+// How much damage `attacking` deals to a single defending type.
+export function attackMultiplier(attacking: string, defender: TypeData): number {
+  const relations = defender.damage_relations;
+  if (relations.no_damage_from.some((t) => t.name === attacking)) return 0;
+  if (relations.double_damage_from.some((t) => t.name === attacking)) return 2;
+  if (relations.half_damage_from.some((t) => t.name === attacking)) return 0.5;
+  return 1;
+}
+
+// Damage multiplier of every attacking type against a (possibly dual-typed) defender.
+export function defensiveMultipliers(defenders: TypeData[]): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const attacking of TYPE_NAMES) {
+    result[attacking] = defenders.reduce((product, defender) => product * attackMultiplier(attacking, defender), 1);
+  }
+  return result;
+}
+
+// The best multiplier any of the `attacking` types achieves against a defender.
+export function bestAttackMultiplier(attacking: string[], defenders: TypeData[]): number {
+  return attacking.reduce(
+    (best, type) => Math.max(best, defenders.reduce((product, d) => product * attackMultiplier(type, d), 1)),
+    0
+  );
+}
+
+export function groupByMultiplier(multipliers: Record<string, number>): Map<number, string[]> {
+  const groups = new Map<number, string[]>(MULTIPLIER_GROUPS.map((m) => [m, []]));
+  for (const type of TYPE_NAMES) {
+    groups.get(multipliers[type])?.push(type);
+  }
+  return groups;
+}
@@ -0,0 +1,459 @@
+// Shapes of the PokeAPI resources used across the app. Only the fields we
+// actually read are declared; PokeAPI returns many more.
+
+import type { StatName } from './stats';
+
+export interface NamedAPIResource {
+  name: string;
+  url: string;
+}
+
+export interface NamedAPIResourceList {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: NamedAPIResource[];
+}
+
+export interface PokemonData {
+  id: number;
+  name: string;
+  height: number;
+  weight: number;
+  base_experience: number;
+  location_area_encounters: string;
+  is_default: boolean;
+  species: NamedAPIResource;
+  forms: NamedAPIResource[];
+  sprites: {
+    front_default: string | null;
+    back_default: string | null;
+    front_shiny: string | null;
+    back_shiny: string | null;
+  };
+  types: Array<{
+    slot: number;
+    type: NamedAPIResource;
+  }>;
+  stats: Array<{
+    base_stat: number;
+    effort: number;
+    stat: NamedAPIResource;
+  }>;
+  abilities: Array<{
+    ability: NamedAPIResource;
+    is_hidden: boolean;
+    slot: number;
+  }>;
+  moves: Array<{
+    move: NamedAPIResource;
+    version_group_details: Array<{
+      level_learned_at: number;
+      move_learn_method: NamedAPIResource;
+      version_group: NamedAPIResource;
+    }>;
+  }>;
+  held_items: Array<{
+    item: NamedAPIResource;
+    version_details: HeldItemVersionDetail[];
+  }>;
+}
+
+export interface HeldItemVersionDetail {
+  // Percent chance a wild Pokemon holds the item in this version
+  rarity: number;
+  version: NamedAPIResource;
+}
+
+export interface PokemonSpeciesData {
+  id: number;
+  name: string;
+  evolves_from_species: NamedAPIResource | null;
+  evolution_chain: { url: string } | null;
+  generation: NamedAPIResource;
+  genera: Array<{
+    genus: string;
+    language: NamedAPIResource;
+  }>;
+  flavor_text_entries: Array<{
+    flavor_text: string;
+    language: NamedAPIResource;
+    version: NamedAPIResource;
+  }>;
+  // Chance of being female in eighths; -1 for genderless.
+  gender_rate: number;
+  capture_rate: number;
+  base_happiness: number | null;
+  growth_rate: NamedAPIResource;
+  egg_groups: NamedAPIResource[];
+  hatch_counter: number | null;
+  habitat: NamedAPIResource | null;
+  is_baby: boolean;
+  is_legendary: boolean;
+  is_mythical: boolean;
+  varieties: Array<{
+    is_default: boolean;
+    pokemon: NamedAPIResource;
+  }>;
+}
+
+export interface PokemonFormData {
+  id: number;
+  name: string;
+  form_name: string;
+  is_default: boolean;
+  is_mega: boolean;
+  is_battle_only: boolean;
+  pokemon: NamedAPIResource;
+  version_group: NamedAPIResource;
+  sprites: {
+    front_default: string | null;
+    front_shiny: string | null;
+  };
+}
+
+export interface EvolutionDetail {
+  trigger: NamedAPIResource;
+  item: NamedAPIResource | null;
+  held_item: NamedAPIResource | null;
+  known_move: NamedAPIResource | null;
+  known_move_type: NamedAPIResource | null;
+  location: NamedAPIResource | null;
+  party_species: NamedAPIResource | null;
+  party_type: NamedAPIResource | null;
+  trade_species: NamedAPIResource | null;
+  gender: number | null;
+  min_level: number | null;
+  min_happiness: number | null;
+  min_beauty: number | null;
+  min_affection: number | null;
+  relative_physical_stats: number | null;
+  time_of_day: string;
+  needs_overworld_rain: boolean;
+  turn_upside_down: boolean;
+}
+
+export interface EvolutionChainLink {
+  is_baby: boolean;
+  species: NamedAPIResource;
+  evolution_details: EvolutionDetail[];
+  evolves_to: EvolutionChainLink[];
+}
+
+export interface EvolutionChainData {
+  id: number;
+  chain: EvolutionChainLink;
+}
+
+export interface EncounterDetail {
+  min_level: number;
+  max_level: number;
+  condition_values: NamedAPIResource[];
+  chance: number;
+  method: NamedAPIResource;
+}
+
+export interface EncounterVersionDetail {
+  version: NamedAPIResource;
+  max_chance: number;
+  encounter_details: EncounterDetail[];
+}
+
+export interface LocationEncounter {
+  location_area: NamedAPIResource;
+  version_details: EncounterVersionDetail[];
+}
+
+export interface MoveData {
+  id: number;
+  name: string;
+  accuracy: number | null;
+  effect_chance: number | null;
+  pp: number | null;
+  priority: number;
+  power: number | null;
+  type: NamedAPIResource;
+  damage_class: NamedAPIResource | null;
+  generation: NamedAPIResource;
+  learned_by_pokemon: NamedAPIResource[];
+  effect_entries: Array<{
+    effect: string;
+    language: NamedAPIResource;
+    short_effect?: string;
+  }>;
+  flavor_text_entries: Array<{
+    flavor_text: string;
+    language: NamedAPIResource;
+    version_group: NamedAPIResource;
+  }>;
+}
+
+export interface AbilityData {
+  id: number;
+  name: string;
+  is_main_series: boolean;
+  generation: NamedAPIResource;
+  effect_entries: Array<{
+    effect: string;
+    short_effect: string;
+    language: NamedAPIResource;
+  }>;
+  flavor_text_entries: Array<{
+    flavor_text: string;
+    language: NamedAPIResource;
+    version_group: NamedAPIResource;
+  }>;
+  pokemon: Array<{
+    is_hidden: boolean;
+    slot: number;
+    pokemon: NamedAPIResource;
+  }>;
+}
+
+export interface LocationData {
+  id: number;
+  name: string;
+  region: NamedAPIResource | null;
+  areas: NamedAPIResource[];
+}
+
+export interface LocationAreaData {
+  id: number;
+  name: string;
+  game_index: number;
+  location: NamedAPIResource;
+  encounter_method_rates: Array<{
+    encounter_method: NamedAPIResource;
+    version_details: Array<{
+      rate: number;
+      version: NamedAPIResource;
+    }>;
+  }>;
+  pokemon_encounters: Array<{
+    pokemon: NamedAPIResource;
+    version_details: EncounterVersionDetail[];
+  }>;
+}
+
+export interface TypeData {
+  id: number;
+  name: string;
+  damage_relations: {
+    double_damage_from: NamedAPIResource[];
+    double_damage_to: NamedAPIResource[];
+    half_damage_from: NamedAPIResource[];
+    half_damage_to: NamedAPIResource[];
+    no_damage_from: NamedAPIResource[];
+    no_damage_to: NamedAPIResource[];
+  };
+  generation: NamedAPIResource;
+  move_damage_class: NamedAPIResource | null;
+  pokemon: Array<{
+    slot: number;
+    pokemon: NamedAPIResource;
+  }>;
+  moves: NamedAPIResource[];
+}
+
+export interface NatureData {
+  id: number;
+  name: string;
+  increased_stat: NamedAPIResource | null;
+  decreased_stat: NamedAPIResource | null;
+  likes_flavor: NamedAPIResource | null;
+  hates_flavor: NamedAPIResource | null;
+}
+
+export interface CharacteristicData {
+  id: number;
+  // The highest IV modulo 5
+  gene_modulo: number;
+  possible_values: number[];
+  highest_stat: NamedAPIResource;
+  descriptions: Array<{
+    description: string;
+    language: NamedAPIResource;
+  }>;
+}
+
+export interface ItemData {
+  id: number;
+  name: string;
+  cost: number;
+  fling_power: number | null;
+  fling_effect: NamedAPIResource | null;
+  attributes: NamedAPIResource[];
+  category: NamedAPIResource;
+  sprites: {
+    default: string | null;
+  };
+  effect_entries: Array<{
+    effect: string;
+    short_effect: string;
+    language: NamedAPIResource;
+  }>;
+  flavor_text_entries: Array<{
+    text: string;
+    language: NamedAPIResource;
+    version_group: NamedAPIResource;
+  }>;
+  held_by_pokemon: Array<{
+    pokemon: NamedAPIResource;
+    version_details: HeldItemVersionDetail[];
+  }>;
+}
+
+export interface ItemCategoryData {
+  id: number;
+  name: string;
+  pocket: NamedAPIResource;
+}
+
+export interface BerryData {
+  id: number;
+  name: string;
+  // Hours per growth stage
+  growth_time: number;
+  max_harvest: number;
+  natural_gift_power: number;
+  natural_gift_type: NamedAPIResource;
+  // Millimetres
+  size: number;
+  smoothness: number;
+  soil_dryness: number;
+  firmness: NamedAPIResource;
+  flavors: Array<{
+    potency: number;
+    flavor: NamedAPIResource;
+  }>;
+  item: NamedAPIResource;
+}
+
+export interface GenerationData {
+  id: number;
+  name: string;
+  main_region: NamedAPIResource;
+  pokemon_species: NamedAPIResource[];
+}
+
+export interface RegionData {
+  id: number;
+  name: string;
+  locations: NamedAPIResource[];
+  main_generation: NamedAPIResource | null;
+  pokedexes: NamedAPIResource[];
+  version_groups: NamedAPIResource[];
+}
+
+export interface PokedexData {
+  id: number;
+  name: string;
+  is_main_series: boolean;
+  descriptions: Array<{
+    description: string;
+    language: NamedAPIResource;
+  }>;
+  pokemon_entries: Array<{
+    entry_number: number;
+    pokemon_species: NamedAPIResource;
+  }>;
+  region: NamedAPIResource | null;
+  version_groups: NamedAPIResource[];
+}
+
+// Compact summaries served by the /api/index/* route handlers so list pages
+// can render from a single request.
+
+export interface PokemonSummary {
+  id: number;
+  name: string;
+  types: string[];
+  sprite: string;
+  stats: Record<StatName, number>;
+  abilities: string[];
+  generation: string;
+  isLegendary: boolean;
+  isMythical: boolean;
+  isBaby: boolean;
+}
+
+export interface MoveSummary {
+  id: number;
+  name: string;
+  type: string;
+  damageClass: string | null;
+  power: number | null;
+  accuracy: number | null;
+  pp: number | null;
+  priority: number;
+  generation: string;
+}
+
+export interface AbilitySummary {
+  id: number;
+  name: string;
+  generation: string;
+  shortEffect: string | null;
+  pokemonCount: number;
+}
+
+export type FormKind = 'regional' | 'mega' | 'gmax' | 'cosmetic' | 'other';
+
+export interface FormSummary {
+  id: number;
+  name: string;
+  pokemon: string;
+  kind: FormKind;
+  sprite: string | null;
+}
+
+export interface LocationSummary {
+  id: number;
+  name: string;
+  region: string | null;
+}
+
+export interface ItemSummary {
+  id: number;
+  name: string;
+  category: string;
+  pocket: string;
+  sprite: string | null;
+  cost: number;
+  shortEffect: string | null;
+}
+
+export interface BerrySummary {
+  id: number;
+  name: string;
+  item: string;
+  firmness: string;
+  naturalGiftType: string;
+  naturalGiftPower: number;
+  // Flavor name -> potency; flavors the berry lacks are 0
+  flavors: Record<string, number>;
+}
+
+// One evolution step: `species` evolves from `from`, possibly needing items.
+export interface EvolutionStep {
+  from: string;
+  species: string;
+  // Links go by species id, since a species' default Pokemon can be named differently
+  speciesId: number;
+  items: string[];
+  methods: string[];
+}
+
+export interface EvolutionSummary {
+  // Evolution chain id
+  id: number;
+  steps: EvolutionStep[];
+}
+
+export interface SummaryIndex<T> {
+  // Number of entries in the upstream list, including failed ones.
+  count: number;
+  results: T[];
+  // Names of entries that could not be loaded after retries.
+  failed: string[];
+}
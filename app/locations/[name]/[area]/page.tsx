@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { EncounterTable, VersionSelect } from '../../../components/EncounterTable';
+import { TopNav } from '../../../components/TopNav';
+import { encounterVersions, formatEncounterMethod } from '../../../lib/encounters';
+import { formatName } from '../../../lib/format';
+import { getLocationArea } from '../../../lib/pokeapi';
+import type { LocationAreaData } from '../../../lib/types';
+
+export default function LocationAreaDetail({ params }: { params: Promise<{ name: string; area: string }> }) {
+  const { name, area: areaName } = use(params);
+  const [area, setArea] = useState<LocationAreaData | null>(null);
+  const [encounterVersion, setEncounterVersion] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchArea() {
+      try {
+        setLoading(true);
+        const data = await getLocationArea(areaName);
+        if (cancelled) return;
+        setArea(data);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load location area');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchArea();
+    return () => {
+      cancelled = true;
+    };
+  }, [areaName]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+        <TopNav activeTab="locations" />
+        <div className="flex flex-1 items-center justify-center p-4">
+          <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex items-center justify-center">
+            <span className="text-gray-600 dark:text-gray-400">Loading area...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !area) {
+    return (
+      <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+        <TopNav activeTab="locations" />
+        <div className="flex flex-1 items-center justify-center p-4">
+          <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col items-center justify-center gap-4">
+            <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Location area not found'}</span>
+            <Link
+              href={`/locations/${name}`}
+              className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+            >
+              Back to {formatName(name)}
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const versions = encounterVersions([
+    ...area.encounter_method_rates.map((m) => m.version_details),
+    ...area.pokemon_encounters.map((e) => e.version_details),
+  ]);
+  const shownVersion =
+    encounterVersion && versions.some((v) => v.name === encounterVersion)
+      ? encounterVersion
+      : (versions[versions.length - 1]?.name ?? '');
+  const methodRates = area.encounter_method_rates
+    .map((m) => ({
+      method: m.encounter_method.name,
+      rate: m.version_details.find((v) => v.version.name === shownVersion)?.rate,
+    }))
+    .filter((m): m is { method: string; rate: number } => m.rate !== undefined);
+  const encounters = [...area.pokemon_encounters].sort((a, b) => a.pokemon.name.localeCompare(b.pokemon.name));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="locations" />
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">{formatName(area.name)}</h1>
+            <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{area.id}</span>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+              Area of{' '}
+              <Link
+                href={`/locations/${area.location.name}`}
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                {formatName(area.location.name)}
+              </Link>
+            </p>
+          </div>
+
+          {versions.length > 0 ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Encounter Rates</h2>
+                <VersionSelect versions={versions} value={shownVersion} onChange={setEncounterVersion} />
+              </div>
+
+              {methodRates.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {methodRates.map((m) => (
+                    <div key={m.method}>
+                      <span className="text-sm text-gray-500 dark:text-gray-400">{formatEncounterMethod(m.method)}</span>
+                      <p className="text-lg text-gray-800 dark:text-gray-200">{m.rate}%</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <EncounterTable
+                entryLabel="Pokémon"
+                version={shownVersion}
+                entries={encounters.map((encounter) => ({
+                  name: encounter.pokemon.name,
+                  href: `/pokemon/${encounter.pokemon.name}`,
+                  versionDetails: encounter.version_details,
+                }))}
+              />
+            </>
+          ) : (
+            <div className="text-sm text-gray-500 dark:text-gray-400">No encounters recorded for this area.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
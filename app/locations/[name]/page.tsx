@@ -1,33 +1,12 @@
 'use client';
 
-import React, { useState, useEffect, use } from 'react';
+import React, { useState, useEffect, use, useCallback } from 'react';
 import Link from 'next/link';
+import { EncounterTable, VersionSelect } from '../../components/EncounterTable';
 import { TopNav } from '../../components/TopNav';
-
-interface LocationData {
-  id: number;
-  name: string;
-  region: {
-    name: string;
-    url: string;
-  } | null;
-  areas: Array<{
-    name: string;
-    url: string;
-  }>;
-}
-
-interface LocationAreaData {
-  id: number;
-  name: string;
-  pokemon_encounters: Array<{
-    pokemon: {
-      name: string;
-      url: string;
-    };
-    // ... more fields exist, but we don't need them for this UI
-  }>;
-}
+import { encounterVersions } from '../../lib/encounters';
+import { fetchResource, getLocation } from '../../lib/pokeapi';
+import type { LocationAreaData, LocationData, NamedAPIResource } from '../../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -43,49 +22,48 @@ function formatLocationName(name: string): string {
 export default function LocationDetail({ params }: { params: Promise<{ name: string }> }) {
   const { name } = use(params);
   const [location, setLocation] = useState<LocationData | null>(null);
-  const [areaPokemon, setAreaPokemon] = useState<Record<string, string[]>>({});
+  const [areaEncounters, setAreaEncounters] = useState<Record<string, LocationAreaData['pokemon_encounters']>>({});
+  const [encounterVersion, setEncounterVersion] = useState<string | null>(null);
   const [areaLoading, setAreaLoading] = useState<Record<string, boolean>>({});
+  const [areaFailed, setAreaFailed] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchArea = useCallback(async (area: NamedAPIResource, isCancelled: () => boolean = () => false) => {
+    try {
+      setAreaLoading((prev) => ({ ...prev, [area.name]: true }));
+      setAreaFailed((prev) => ({ ...prev, [area.name]: false }));
+      const areaData = await fetchResource<LocationAreaData>(area.url);
+      if (isCancelled()) return;
+
+      const encounters = [...(areaData.pokemon_encounters ?? [])].sort((a, b) =>
+        a.pokemon.name.localeCompare(b.pokemon.name)
+      );
+      setAreaEncounters((prev) => ({ ...prev, [area.name]: encounters }));
+    } catch {
+      if (!isCancelled()) setAreaFailed((prev) => ({ ...prev, [area.name]: true }));
+    } finally {
+      if (!isCancelled()) setAreaLoading((prev) => ({ ...prev, [area.name]: false }));
+    }
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
 
     async function fetchLocation() {
       try {
         setLoading(true);
-        setAreaPokemon({});
+        setAreaEncounters({});
         setAreaLoading({});
-        const response = await fetch(`https://pokeapi.co/api/v2/location/${name}`);
-        if (!response.ok) {
-          throw new Error('Location not found');
-        }
-        const data: LocationData = await response.json();
+        setAreaFailed({});
+        const data = await getLocation(name);
         if (cancelled) return;
         setLocation(data);
         setError(null);
+        setLoading(false);
 
-        // Fetch each area's Pokemon encounters (progressively)
-        for (const area of data.areas ?? []) {
-          if (cancelled) break;
-          try {
-            setAreaLoading((prev) => ({ ...prev, [area.name]: true }));
-            const areaRes = await fetch(area.url);
-            if (!areaRes.ok) continue;
-            const areaData: LocationAreaData = await areaRes.json();
-            if (cancelled) break;
-
-            const pokemonNames = Array.from(
-              new Set((areaData.pokemon_encounters ?? []).map((p) => p.pokemon.name))
-            ).sort((a, b) => a.localeCompare(b));
-
-            setAreaPokemon((prev) => ({ ...prev, [area.name]: pokemonNames }));
-          } catch {
-            // ignore individual area failures
-          } finally {
-            if (!cancelled) setAreaLoading((prev) => ({ ...prev, [area.name]: false }));
-          }
-        }
+        // Fetch each area's Pokemon encounters; the shared scheduler bounds concurrency
+        await Promise.all((data.areas ?? []).map((area) => fetchArea(area, () => cancelled)));
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load location');
       } finally {
@@ -97,7 +75,7 @@ export default function LocationDetail({ params }: { params: Promise<{ name: str
     return () => {
       cancelled = true;
     };
-  }, [name]);
+  }, [name, fetchArea]);
 
   if (loading) {
     return (
@@ -131,6 +109,14 @@ export default function LocationDetail({ params }: { params: Promise<{ name: str
     );
   }
 
+  const versions = encounterVersions(
+    Object.values(areaEncounters).flatMap((encounters) => encounters.map((e) => e.version_details))
+  );
+  const shownVersion =
+    encounterVersion && versions.some((v) => v.name === encounterVersion)
+      ? encounterVersion
+      : (versions[versions.length - 1]?.name ?? '');
+
   return (
     <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
       <TopNav activeTab="locations" />
@@ -149,17 +135,25 @@ export default function LocationDetail({ params }: { params: Promise<{ name: str
             {location.region && (
               <div>
                 <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Region</h2>
-                <p className="text-lg text-gray-800 dark:text-gray-200">
+                <Link
+                  href={`/regions/${location.region.name}`}
+                  className="text-lg text-gray-800 dark:text-gray-200 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                >
                   {formatLocationName(location.region.name)}
-                </p>
+                </Link>
               </div>
             )}
 
             {location.areas && location.areas.length > 0 && (
               <div>
-                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
-                  Areas ({location.areas.length})
-                </h2>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+                    Areas ({location.areas.length})
+                  </h2>
+                  {versions.length > 0 && (
+                    <VersionSelect versions={versions} value={shownVersion} onChange={setEncounterVersion} />
+                  )}
+                </div>
                 <div className="flex flex-col gap-3">
                   {location.areas.map((area) => (
                     <div
@@ -167,27 +161,41 @@ export default function LocationDetail({ params }: { params: Promise<{ name: str
                       className="p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200"
                     >
                       <div className="flex items-center justify-between gap-3">
-                        <div className="font-medium">{formatLocationName(area.name)}</div>
+                        <Link
+                          href={`/locations/${location.name}/${area.name}`}
+                          className="font-medium hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                        >
+                          {formatLocationName(area.name)}
+                        </Link>
                         {areaLoading[area.name] && (
                           <div className="text-xs text-gray-500 dark:text-gray-400">Loading Pokémon…</div>
                         )}
                       </div>
 
                       <div className="mt-3">
-                        {areaPokemon[area.name] && areaPokemon[area.name].length > 0 ? (
-                          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                            {areaPokemon[area.name].map((pokemonName) => (
-                              <Link
-                                key={pokemonName}
-                                href={`/pokemon/${pokemonName}`}
-                                className="p-2 rounded-lg bg-white/70 dark:bg-zinc-900/60 hover:bg-white dark:hover:bg-zinc-900 transition-colors text-sm text-gray-800 dark:text-gray-200 text-center"
-                              >
-                                {formatLocationName(pokemonName)}
-                              </Link>
-                            ))}
-                          </div>
+                        {areaEncounters[area.name] && areaEncounters[area.name].length > 0 ? (
+                          <EncounterTable
+                            entryLabel="Pokémon"
+                            version={shownVersion}
+                            entries={areaEncounters[area.name].map((encounter) => ({
+                              name: encounter.pokemon.name,
+                              href: `/pokemon/${encounter.pokemon.name}`,
+                              versionDetails: encounter.version_details,
+                            }))}
+                          />
                         ) : areaLoading[area.name] ? (
                           <div className="text-sm text-gray-500 dark:text-gray-400">Loading Pokémon…</div>
+                        ) : areaFailed[area.name] ? (
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            Failed to load Pokémon —{' '}
+                            <button
+                              type="button"
+                              onClick={() => fetchArea(area)}
+                              className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                            >
+                              retry
+                            </button>
+                          </div>
                         ) : (
                           <div className="text-sm text-gray-500 dark:text-gray-400">No Pokémon listed for this area.</div>
                         )}
@@ -2,30 +2,10 @@
 
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { RetryFailed } from '../components/RetryFailed';
 import { TopNav } from '../components/TopNav';
-
-interface LocationListEntry {
-  name: string;
-  url: string;
-}
-
-interface LocationListResponse {
-  results: LocationListEntry[];
-}
-
-interface LocationData {
-  id: number;
-  name: string;
-  region: {
-    name: string;
-    url: string;
-  } | null;
-}
-
-function getLocationIdFromUrl(url: string): number {
-  const matches = url.match(/\/location\/(\d+)\//);
-  return matches ? parseInt(matches[1], 10) : 0;
-}
+import { fetchIndex } from '../lib/summaries';
+import type { LocationSummary } from '../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -39,11 +19,13 @@ function formatName(name: string): string {
 }
 
 export default function LocationsListPage() {
-  const [locations, setLocations] = useState<LocationData[]>([]);
+  const [locations, setLocations] = useState<LocationSummary[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -53,30 +35,13 @@ export default function LocationsListPage() {
         setLoading(true);
         setError(null);
 
-        const response = await fetch('https://pokeapi.co/api/v2/location?limit=1000');
-        const data: LocationListResponse = await response.json();
+        const data = await fetchIndex('locations');
+        if (cancelled) return;
 
-        const sorted = [...data.results].sort((a, b) => getLocationIdFromUrl(a.url) - getLocationIdFromUrl(b.url));
-        setTotal(sorted.length);
+        setLocations(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
         setLoading(false);
-
-        for (const entry of sorted) {
-          if (cancelled) break;
-          try {
-            const locationResponse = await fetch(entry.url);
-            if (!locationResponse.ok) continue;
-            const locationInfo: LocationData = await locationResponse.json();
-
-            setLocations((prev) => {
-              if (prev.some((l) => l.id === locationInfo.id)) return prev;
-              const updated = [...prev, locationInfo];
-              updated.sort((a, b) => a.id - b.id);
-              return updated;
-            });
-          } catch {
-            // ignore individual failures
-          }
-        }
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load locations');
         setLoading(false);
@@ -89,11 +54,25 @@ export default function LocationsListPage() {
     };
   }, []);
 
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('locations', { retryFailed: true });
+      setLocations(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
   const filtered = locations.filter((loc) => {
     if (!searchTerm) return true;
     const s = searchTerm.toLowerCase();
     const name = loc.name.toLowerCase();
-    const region = loc.region?.name?.toLowerCase() ?? '';
+    const region = loc.region?.toLowerCase() ?? '';
     return name.includes(s) || region.includes(s);
   });
 
@@ -122,6 +101,7 @@ export default function LocationsListPage() {
                   Showing {filtered.length} / {total || '...'}
                 </span>
                 {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
               </div>
 
               <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -136,7 +116,7 @@ export default function LocationsListPage() {
                       </span>
                       {loc.region && (
                         <span className="text-xs text-gray-500 dark:text-gray-400">
-                          {formatName(loc.region.name)}
+                          {formatName(loc.region)}
                         </span>
                       )}
                     </Link>
@@ -3,47 +3,10 @@
 import React, { useEffect, useState, use } from 'react';
 import Link from 'next/link';
 import { TopNav } from '../../components/TopNav';
-
-interface MoveData {
-  id: number;
-  name: string;
-  accuracy: number | null;
-  effect_chance: number | null;
-  pp: number | null;
-  priority: number;
-  power: number | null;
-  type: {
-    name: string;
-    url: string;
-  };
-  damage_class: {
-    name: string;
-    url: string;
-  } | null;
-  learned_by_pokemon: Array<{
-    name: string;
-    url: string;
-  }>;
-  effect_entries: Array<{
-    effect: string;
-    language: {
-      name: string;
-      url: string;
-    };
-    short_effect?: string;
-  }>;
-  flavor_text_entries: Array<{
-    flavor_text: string;
-    language: {
-      name: string;
-      url: string;
-    };
-    version_group: {
-      name: string;
-      url: string;
-    };
-  }>;
-}
+import { TypeBadge } from '../../components/TypeBadge';
+import { getTypeColor, groupFlavorText } from '../../lib/format';
+import { getMove } from '../../lib/pokeapi';
+import type { MoveData } from '../../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -56,30 +19,6 @@ function formatMoveName(name: string): string {
     .join(' ');
 }
 
-function getTypeColor(typeName: string): string {
-  const colors: Record<string, string> = {
-    normal: '#A8A878',
-    fire: '#F08030',
-    water: '#6890F0',
-    electric: '#F8D030',
-    grass: '#78C850',
-    ice: '#98D8D8',
-    fighting: '#C03028',
-    poison: '#A040A0',
-    ground: '#E0C068',
-    flying: '#A890F0',
-    psychic: '#F85888',
-    bug: '#A8B820',
-    rock: '#B8A038',
-    ghost: '#705898',
-    dragon: '#7038F8',
-    dark: '#705848',
-    steel: '#B8B8D0',
-    fairy: '#EE99AC',
-  };
-  return colors[typeName.toLowerCase()] || '#68A090';
-}
-
 export default function MoveDetail({ params }: { params: Promise<{ name: string }> }) {
   const { name } = use(params);
   const [move, setMove] = useState<MoveData | null>(null);
@@ -92,9 +31,7 @@ export default function MoveDetail({ params }: { params: Promise<{ name: string
     async function fetchMove() {
       try {
         setLoading(true);
-        const response = await fetch(`https://pokeapi.co/api/v2/move/${name}`);
-        if (!response.ok) throw new Error('Move not found');
-        const data: MoveData = await response.json();
+        const data = await getMove(name);
         if (!cancelled) {
           setMove(data);
           setError(null);
@@ -122,13 +59,7 @@ export default function MoveDetail({ params }: { params: Promise<{ name: string
   const englishFlavorTexts = (move?.flavor_text_entries ?? []).filter((f) => f.language.name === 'en');
   const learnedBy = (move?.learned_by_pokemon ?? []).map((p) => p.name).sort((a, b) => a.localeCompare(b));
 
-  const flavorByVersionGroup = englishFlavorTexts.reduce<Record<string, string[]>>((acc, entry) => {
-    const vg = entry.version_group.name;
-    const cleaned = entry.flavor_text.replace(/\f/g, ' ').replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
-    if (!acc[vg]) acc[vg] = [];
-    if (!acc[vg].includes(cleaned)) acc[vg].push(cleaned);
-    return acc;
-  }, {});
+  const flavorByVersionGroup = groupFlavorText(englishFlavorTexts, (entry) => entry.version_group.name);
   const versionGroups = Object.keys(flavorByVersionGroup).sort((a, b) => a.localeCompare(b));
 
   return (
@@ -165,9 +96,7 @@ export default function MoveDetail({ params }: { params: Promise<{ name: string
                 <div>
                   <span className="text-sm text-gray-500 dark:text-gray-400">Type</span>
                   <div className="mt-1">
-                    <span className="px-3 py-1 rounded-lg text-white font-medium text-sm" style={{ backgroundColor: typeColor }}>
-                      {formatMoveName(move.type.name)}
-                    </span>
+                    <TypeBadge type={move.type.name} />
                   </div>
                 </div>
                 {move.damage_class && (
@@ -2,34 +2,20 @@
 
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { MoveFilterPanel } from '../components/MoveFilterPanel';
+import { MoveTable } from '../components/MoveTable';
+import { RetryFailed } from '../components/RetryFailed';
 import { TopNav } from '../components/TopNav';
-
-interface MoveListEntry {
-  name: string;
-  url: string;
-}
-
-interface MoveListResponse {
-  results: MoveListEntry[];
-}
-
-interface MoveData {
-  id: number;
-  name: string;
-  type: {
-    name: string;
-    url: string;
-  };
-  damage_class: {
-    name: string;
-    url: string;
-  } | null;
-}
-
-function getMoveIdFromUrl(url: string): number {
-  const matches = url.match(/\/move\/(\d+)\//);
-  return matches ? parseInt(matches[1], 10) : 0;
-}
+import { getTypeColor } from '../lib/format';
+import {
+  DEFAULT_MOVE_FILTERS,
+  matchesMoveFilters,
+  sortMoves,
+  type MoveFilters,
+  type MoveSortKey,
+} from '../lib/moveFilters';
+import { fetchIndex } from '../lib/summaries';
+import type { MoveSummary } from '../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -42,36 +28,16 @@ function formatName(name: string): string {
     .join(' ');
 }
 
-function getTypeColor(typeName: string): string {
-  const colors: Record<string, string> = {
-    normal: '#A8A878',
-    fire: '#F08030',
-    water: '#6890F0',
-    electric: '#F8D030',
-    grass: '#78C850',
-    ice: '#98D8D8',
-    fighting: '#C03028',
-    poison: '#A040A0',
-    ground: '#E0C068',
-    flying: '#A890F0',
-    psychic: '#F85888',
-    bug: '#A8B820',
-    rock: '#B8A038',
-    ghost: '#705898',
-    dragon: '#7038F8',
-    dark: '#705848',
-    steel: '#B8B8D0',
-    fairy: '#EE99AC',
-  };
-  return colors[typeName.toLowerCase()] || '#68A090';
-}
-
 export default function MovesListPage() {
-  const [moves, setMoves] = useState<MoveData[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [moves, setMoves] = useState<MoveSummary[]>([]);
+  const [filters, setFilters] = useState<MoveFilters>(DEFAULT_MOVE_FILTERS);
+  const [view, setView] = useState<'cards' | 'table'>('cards');
+  const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -81,30 +47,13 @@ export default function MovesListPage() {
         setLoading(true);
         setError(null);
 
-        const response = await fetch('https://pokeapi.co/api/v2/move?limit=10000');
-        const data: MoveListResponse = await response.json();
+        const data = await fetchIndex('moves');
+        if (cancelled) return;
 
-        const sorted = [...data.results].sort((a, b) => getMoveIdFromUrl(a.url) - getMoveIdFromUrl(b.url));
-        setTotal(sorted.length);
+        setMoves(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
         setLoading(false);
-
-        for (const entry of sorted) {
-          if (cancelled) break;
-          try {
-            const moveResponse = await fetch(entry.url);
-            if (!moveResponse.ok) continue;
-            const moveInfo: MoveData = await moveResponse.json();
-
-            setMoves((prev) => {
-              if (prev.some((m) => m.id === moveInfo.id)) return prev;
-              const updated = [...prev, moveInfo];
-              updated.sort((a, b) => a.id - b.id);
-              return updated;
-            });
-          } catch {
-            // ignore individual failures
-          }
-        }
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load moves');
         setLoading(false);
@@ -117,27 +66,63 @@ export default function MovesListPage() {
     };
   }, []);
 
-  const filtered = moves.filter((move) => {
-    if (!searchTerm) return true;
-    const s = searchTerm.toLowerCase();
-    const name = move.name.toLowerCase();
-    const damage = move.damage_class?.name?.toLowerCase() ?? '';
-    return name.includes(s) || damage.includes(s);
-  });
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('moves', { retryFailed: true });
+      setMoves(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  function sortBy(key: MoveSortKey) {
+    setFilters((prev) => ({ ...prev, sort: key, descending: prev.sort === key ? !prev.descending : false }));
+  }
+
+  const filtered = sortMoves(
+    moves.filter((move) => matchesMoveFilters(move, filters)),
+    filters.sort,
+    filters.descending
+  );
+  const priorities = [...new Set(moves.map((m) => m.priority))].sort((a, b) => b - a);
 
   return (
     <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
       <TopNav activeTab="moves" />
 
       <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
-        <div className="w-full max-w-4xl">
-          <input
-            type="text"
-            placeholder="Search moves by name or category..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-          />
+        <div className="w-full max-w-4xl flex flex-col gap-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Search moves by name or category..."
+              value={filters.q}
+              onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+              className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            />
+            <button
+              type="button"
+              onClick={() => setShowFilters((v) => !v)}
+              className={[
+                'px-4 rounded-lg font-medium whitespace-nowrap shadow-lg dark:shadow-zinc-800/50 transition-colors',
+                showFilters
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white dark:bg-zinc-900 text-gray-700 dark:text-gray-300 hover:bg-zinc-100 dark:hover:bg-zinc-800',
+              ].join(' ')}
+            >
+              Filters
+            </button>
+          </div>
+          {showFilters && (
+            <div className="rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+              <MoveFilterPanel filters={filters} onChange={setFilters} priorities={priorities} />
+            </div>
+          )}
         </div>
 
         <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
@@ -150,34 +135,56 @@ export default function MovesListPage() {
                   Showing {filtered.length} / {total || '...'}
                 </span>
                 {loading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
+                <div className="flex gap-1">
+                  {(['cards', 'table'] as const).map((v) => (
+                    <button
+                      key={v}
+                      type="button"
+                      onClick={() => setView(v)}
+                      className={[
+                        'px-3 py-1 rounded-lg text-sm font-medium transition-colors',
+                        view === v
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700',
+                      ].join(' ')}
+                    >
+                      {v === 'cards' ? 'Cards' : 'Table'}
+                    </button>
+                  ))}
+                </div>
               </div>
 
-              <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                {filtered.map((move) => {
-                  const borderStyle: React.CSSProperties = {
-                    borderLeftWidth: '10px',
-                    borderLeftColor: getTypeColor(move.type.name),
-                  };
-                  return (
-                    <li key={move.id} className="relative">
-                      <Link
-                        href={`/moves/${move.name}`}
-                        className="flex flex-col items-center gap-2 p-3 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors cursor-pointer"
-                        style={borderStyle}
-                      >
-                        <span className="text-sm text-center text-gray-800 dark:text-gray-200">
-                          {formatName(move.name)}
-                        </span>
-                        {move.damage_class && (
-                          <span className="text-xs text-gray-500 dark:text-gray-400">
-                            {formatName(move.damage_class.name)}
+              {view === 'table' ? (
+                <MoveTable moves={filtered} sort={filters.sort} descending={filters.descending} onSort={sortBy} />
+              ) : (
+                <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {filtered.map((move) => {
+                    const borderStyle: React.CSSProperties = {
+                      borderLeftWidth: '10px',
+                      borderLeftColor: getTypeColor(move.type),
+                    };
+                    return (
+                      <li key={move.id} className="relative">
+                        <Link
+                          href={`/moves/${move.name}`}
+                          className="flex flex-col items-center gap-2 p-3 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors cursor-pointer"
+                          style={borderStyle}
+                        >
+                          <span className="text-sm text-center text-gray-800 dark:text-gray-200">
+                            {formatName(move.name)}
                           </span>
-                        )}
-                      </Link>
-                    </li>
-                  );
-                })}
-              </ul>
+                          {move.damageClass && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {formatName(move.damageClass)}
+                            </span>
+                          )}
+                        </Link>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
 
               {moves.length === 0 && loading && (
                 <div className="text-center text-gray-600 dark:text-gray-400 mt-6">Loading moves…</div>
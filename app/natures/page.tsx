@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { TopNav } from '../components/TopNav';
+import { formatName } from '../lib/format';
+import { getCharacteristics, getNatures, NATURE_STATS, natureFor } from '../lib/natures';
+import { STAT_ABBREVIATIONS, STAT_LABELS, STAT_NAMES, type StatName } from '../lib/stats';
+import type { CharacteristicData, NatureData } from '../lib/types';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+function englishDescription(characteristic: CharacteristicData): string {
+  return characteristic.descriptions.find((d) => d.language.name === 'en')?.description ?? '';
+}
+
+// The flavor a stat's natures like (when raising it) or dislike (when lowering it).
+function flavorFor(natures: NatureData[], stat: StatName, kind: 'likes' | 'hates'): string | undefined {
+  const nature = natures.find((n) =>
+    kind === 'likes'
+      ? n.increased_stat?.name === stat && n.likes_flavor
+      : n.decreased_stat?.name === stat && n.hates_flavor
+  );
+  return (kind === 'likes' ? nature?.likes_flavor : nature?.hates_flavor)?.name;
+}
+
+export default function NaturesPage() {
+  const [natures, setNatures] = useState<NatureData[]>([]);
+  const [characteristics, setCharacteristics] = useState<CharacteristicData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [phrase, setPhrase] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setError(null);
+        const [natureList, characteristicList] = await Promise.all([getNatures(), getCharacteristics()]);
+        if (cancelled) return;
+        setNatures(natureList);
+        setCharacteristics(characteristicList);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load natures');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const normalizedPhrase = phrase.trim().toLowerCase().replace(/\.$/, '');
+  const match = normalizedPhrase
+    ? characteristics.find((c) => englishDescription(c).toLowerCase().replace(/\.$/, '') === normalizedPhrase)
+    : undefined;
+  const moduli = [0, 1, 2, 3, 4];
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="natures" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading natures…</div>
+          ) : error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Natures</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  Rows raise a stat by 10%, columns lower one by 10%. A nature likes the flavor tied to the stat it
+                  raises and dislikes the one tied to the stat it lowers; the natures on the diagonal are neutral.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm text-center">
+                    <thead>
+                      <tr>
+                        <th className="p-2 text-xs text-gray-500 dark:text-gray-400 font-normal">+ / −</th>
+                        {NATURE_STATS.map((stat) => {
+                          const flavor = flavorFor(natures, stat, 'hates');
+                          return (
+                            <th key={stat} className="p-2 font-medium text-gray-700 dark:text-gray-300">
+                              −{STAT_ABBREVIATIONS[stat]}
+                              {flavor && (
+                                <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                                  dislikes {formatName(flavor)}
+                                </span>
+                              )}
+                            </th>
+                          );
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {NATURE_STATS.map((increased) => {
+                        const flavor = flavorFor(natures, increased, 'likes');
+                        return (
+                          <tr key={increased}>
+                            <th className="p-2 font-medium text-gray-700 dark:text-gray-300 text-left">
+                              +{STAT_ABBREVIATIONS[increased]}
+                              {flavor && (
+                                <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                                  likes {formatName(flavor)}
+                                </span>
+                              )}
+                            </th>
+                            {NATURE_STATS.map((decreased) => {
+                              const nature = natureFor(natures, increased, decreased);
+                              const neutral = increased === decreased;
+                              return (
+                                <td
+                                  key={decreased}
+                                  className={[
+                                    'p-2 border border-zinc-200 dark:border-zinc-800',
+                                    neutral
+                                      ? 'bg-zinc-100 dark:bg-zinc-800 text-gray-500 dark:text-gray-400'
+                                      : 'text-gray-800 dark:text-gray-200',
+                                  ].join(' ')}
+                                >
+                                  {nature ? formatName(nature.name) : '—'}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Characteristics</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  A Pokemon&apos;s characteristic names its highest IV, and the remainder of that IV divided by 5.
+                </p>
+                <input
+                  type="text"
+                  list="characteristics"
+                  placeholder="Look up a characteristic, e.g. Loves to eat"
+                  value={phrase}
+                  onChange={(e) => setPhrase(e.target.value)}
+                  className={`${inputClass} w-full`}
+                />
+                <datalist id="characteristics">
+                  {characteristics.map((c) => (
+                    <option key={c.id} value={englishDescription(c)} />
+                  ))}
+                </datalist>
+                {normalizedPhrase && (
+                  <div className="mt-3 p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm text-gray-800 dark:text-gray-200">
+                    {match ? (
+                      <>
+                        <p>
+                          Highest IV:{' '}
+                          <span className="font-semibold">
+                            {STAT_LABELS[match.highest_stat.name as StatName] ?? formatName(match.highest_stat.name)}
+                          </span>
+                        </p>
+                        <p>
+                          Possible values: <span className="font-semibold">{match.possible_values.join(', ')}</span>
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-gray-500 dark:text-gray-400">No characteristic matches that phrase.</p>
+                    )}
+                  </div>
+                )}
+
+                <div className="overflow-x-auto mt-4">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-2 pr-3 font-medium">Highest IV</th>
+                        {moduli.map((modulo) => (
+                          <th key={modulo} className="py-2 pr-3 font-medium">
+                            IV mod 5 = {modulo}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-800 dark:text-gray-200">
+                      {STAT_NAMES.map((stat) => (
+                        <tr key={stat} className="border-t border-zinc-200 dark:border-zinc-800">
+                          <th className="py-2 pr-3 font-medium text-gray-500 dark:text-gray-400">{STAT_LABELS[stat]}</th>
+                          {moduli.map((modulo) => {
+                            const characteristic = characteristics.find(
+                              (c) => c.highest_stat.name === stat && c.gene_modulo === modulo
+                            );
+                            return (
+                              <td
+                                key={modulo}
+                                className={[
+                                  'py-2 pr-3',
+                                  characteristic && characteristic === match ? 'font-semibold text-blue-500 dark:text-blue-400' : '',
+                                ].join(' ')}
+                              >
+                                {characteristic ? englishDescription(characteristic) : '—'}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
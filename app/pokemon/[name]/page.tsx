@@ -2,93 +2,31 @@
 
 import React, { useState, useEffect, use } from 'react';
 import Link from 'next/link';
+import { CompareButton } from '../../components/CompareButton';
+import { EncounterTable, VersionSelect } from '../../components/EncounterTable';
+import { EvolutionChain } from '../../components/EvolutionChain';
+import { FormSwitcher } from '../../components/FormSwitcher';
+import { HeldItemList } from '../../components/HeldItemList';
+import { Learnset } from '../../components/Learnset';
+import { NatureSelect } from '../../components/NatureSelect';
+import { PokemonAbilities } from '../../components/PokemonAbilities';
+import { SpeciesInfo } from '../../components/SpeciesInfo';
+import { StatCalculator } from '../../components/StatCalculator';
 import { TopNav } from '../../components/TopNav';
-
-interface PokemonData {
-  id: number;
-  name: string;
-  height: number;
-  weight: number;
-  base_experience: number;
-  location_area_encounters: string;
-  sprites: {
-    front_default: string | null;
-    back_default: string | null;
-    front_shiny: string | null;
-    back_shiny: string | null;
-  };
-  types: Array<{
-    slot: number;
-    type: {
-      name: string;
-      url: string;
-    };
-  }>;
-  stats: Array<{
-    base_stat: number;
-    effort: number;
-    stat: {
-      name: string;
-      url: string;
-    };
-  }>;
-  abilities: Array<{
-    ability: {
-      name: string;
-      url: string;
-    };
-    is_hidden: boolean;
-    slot: number;
-  }>;
-  moves: Array<{
-    move: {
-      name: string;
-      url: string;
-    };
-    version_group_details: Array<{
-      level_learned_at: number;
-      move_learn_method: {
-        name: string;
-        url: string;
-      };
-      version_group: {
-        name: string;
-        url: string;
-      };
-    }>;
-  }>;
-}
-
-interface LocationEncounter {
-  location_area: {
-    name: string;
-    url: string;
-  };
-  version_details: Array<{
-    version: {
-      name: string;
-      url: string;
-    };
-    max_chance: number;
-    encounter_details: Array<{
-      min_level: number;
-      max_level: number;
-      condition_values: Array<{
-        name: string;
-        url: string;
-      }>;
-      chance: number;
-      method: {
-        name: string;
-        url: string;
-      };
-    }>;
-  }>;
-}
-
-function getPokemonSpriteUrl(id: number): string {
-  return `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/${id}.png`;
-}
+import { TypeBadge } from '../../components/TypeBadge';
+import { TypeMatchups } from '../../components/TypeMatchups';
+import { encounterVersions } from '../../lib/encounters';
+import { getTypeColor } from '../../lib/format';
+import { getNatures, NEUTRAL_NATURE, natureMultipliers } from '../../lib/natures';
+import {
+  getItemSpriteUrl,
+  getLocationArea,
+  getPokemon,
+  getPokemonEncounters,
+  getPokemonSpriteUrl,
+} from '../../lib/pokeapi';
+import type { StatName } from '../../lib/stats';
+import type { LocationEncounter, NatureData, PokemonData } from '../../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -113,69 +51,97 @@ function formatStatName(statName: string): string {
   return statMap[statName] || capitalizeFirst(statName);
 }
 
-function getTypeColor(typeName: string): string {
-  const colors: Record<string, string> = {
-    normal: '#A8A878',
-    fire: '#F08030',
-    water: '#6890F0',
-    electric: '#F8D030',
-    grass: '#78C850',
-    ice: '#98D8D8',
-    fighting: '#C03028',
-    poison: '#A040A0',
-    ground: '#E0C068',
-    flying: '#A890F0',
-    psychic: '#F85888',
-    bug: '#A8B820',
-    rock: '#B8A038',
-    ghost: '#705898',
-    dragon: '#7038F8',
-    dark: '#705848',
-    steel: '#B8B8D0',
-    fairy: '#EE99AC',
-  };
-  return colors[typeName.toLowerCase()] || '#68A090';
-}
-
 export default function PokemonDetail({ params }: { params: Promise<{ name: string }> }) {
   const { name } = use(params);
+  // Set when another variety is picked in the forms section; shown in place
+  const [variety, setVariety] = useState<string | null>(null);
+  const shownName = variety ?? name;
   const [pokemon, setPokemon] = useState<PokemonData | null>(null);
   const [locationEncounters, setLocationEncounters] = useState<LocationEncounter[]>([]);
+  const [encounterVersion, setEncounterVersion] = useState<string | null>(null);
+  // Area name -> parent location name, looked up per area once encounters load
+  const [areaLocations, setAreaLocations] = useState<Record<string, string>>({});
+  const [natures, setNatures] = useState<NatureData[]>([]);
+  // Applies to the base stats and the stat calculator alike
+  const [nature, setNature] = useState(NEUTRAL_NATURE);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+
     async function fetchPokemon() {
       try {
         setLoading(true);
-        const response = await fetch(`https://pokeapi.co/api/v2/pokemon/${name}`);
-        if (!response.ok) {
-          throw new Error('Pokemon not found');
-        }
-        const data: PokemonData = await response.json();
+        setLocationEncounters([]);
+        const data = await getPokemon(shownName);
+        if (cancelled) return;
         setPokemon(data);
         
         // Fetch location encounters
-        if (data.location_area_encounters) {
-          const encountersResponse = await fetch(data.location_area_encounters);
-          if (encountersResponse.ok) {
-            const encounters: LocationEncounter[] = await encountersResponse.json();
-            setLocationEncounters(encounters);
-          }
+        try {
+          const encounters = await getPokemonEncounters(data);
+          if (!cancelled) setLocationEncounters(encounters);
+        } catch {
+          // encounters are optional
+          if (!cancelled) setLocationEncounters([]);
         }
         
-        setError(null);
+        if (!cancelled) setError(null);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load Pokemon');
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load Pokemon');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     }
 
     fetchPokemon();
-  }, [name]);
+    return () => {
+      cancelled = true;
+    };
+  }, [shownName]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const encounter of locationEncounters) {
+      const areaName = encounter.location_area.name;
+      getLocationArea(areaName)
+        .then((area) => {
+          if (!cancelled) setAreaLocations((prev) => ({ ...prev, [areaName]: area.location.name }));
+        })
+        .catch(() => {
+          // the area stays unlinked
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locationEncounters]);
+
+  useEffect(() => {
+    let cancelled = false;
 
-  if (loading) {
+    getNatures()
+      .then((data) => {
+        if (!cancelled) setNatures(data);
+      })
+      .catch(() => {
+        // the nature pickers stay empty and stats stay neutral
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function selectVariety(varietyName: string) {
+    setVariety(varietyName);
+    window.history.replaceState(null, '', `/pokemon/${varietyName}`);
+  }
+
+  if (loading && !pokemon) {
     return (
       <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
         <TopNav activeTab="pokemon" />
@@ -223,6 +189,15 @@ export default function PokemonDetail({ params }: { params: Promise<{ name: stri
     borderStyle.borderRightColor = type2Color;
   }
 
+  const multipliers = natureMultipliers(natures.find((n) => n.name === nature));
+
+  const versions = encounterVersions(locationEncounters.map((e) => e.version_details));
+  // Default to the most recent game; the pick sticks while it exists for the shown variety
+  const shownVersion =
+    encounterVersion && versions.some((v) => v.name === encounterVersion)
+      ? encounterVersion
+      : (versions[versions.length - 1]?.name ?? '');
+
   return (
     <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
       <TopNav activeTab="pokemon" />
@@ -239,6 +214,7 @@ export default function PokemonDetail({ params }: { params: Promise<{ name: stri
               <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">
                 #{pokemon.id}
               </span>
+              <CompareButton pokemon={pokemon.name} />
               <div className="flex gap-2">
                 <img
                   src={pokemon.sprites.front_default || getPokemonSpriteUrl(pokemon.id)}
@@ -276,13 +252,7 @@ export default function PokemonDetail({ params }: { params: Promise<{ name: stri
                 <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Types</h2>
                 <div className="flex gap-2">
                   {types.map((type) => (
-                    <span
-                      key={type.type.name}
-                      className="px-4 py-2 rounded-lg text-white font-medium"
-                      style={{ backgroundColor: getTypeColor(type.type.name) }}
-                    >
-                      {formatPokemonName(type.type.name)}
-                    </span>
+                    <TypeBadge key={type.type.name} type={type.type.name} size="md" />
                   ))}
                 </div>
               </div>
@@ -307,100 +277,118 @@ export default function PokemonDetail({ params }: { params: Promise<{ name: stri
 
               <div>
                 <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Abilities</h2>
-                <div className="flex flex-col gap-2">
-                  {pokemon.abilities.map((ability) => (
-                    <div key={ability.ability.name} className="flex items-center gap-2">
-                      <span className="text-gray-800 dark:text-gray-200">
-                        {formatPokemonName(ability.ability.name)}
-                      </span>
-                      {ability.is_hidden && (
-                        <span className="text-xs text-gray-500 dark:text-gray-400">(Hidden)</span>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                <PokemonAbilities abilities={pokemon.abilities} />
               </div>
 
               <div>
-                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Base Stats</h2>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Base Stats</h2>
+                  <NatureSelect
+                    natures={natures}
+                    value={nature}
+                    onChange={setNature}
+                    className="p-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  />
+                </div>
                 <div className="flex flex-col gap-2">
-                  {pokemon.stats.map((stat) => (
-                    <div key={stat.stat.name} className="flex items-center gap-4">
-                      <span className="w-24 text-sm text-gray-700 dark:text-gray-300">
-                        {formatStatName(stat.stat.name)}:
-                      </span>
-                      <div className="flex-1 bg-zinc-200 dark:bg-zinc-800 rounded-full h-4 overflow-hidden">
-                        <div
-                          className="h-full bg-blue-500 dark:bg-blue-600 rounded-full transition-all"
-                          style={{ width: `${Math.min((stat.base_stat / 255) * 100, 100)}%` }}
-                        />
+                  {pokemon.stats.map((stat) => {
+                    // Stats the nature raises are drawn green, the one it lowers red
+                    const multiplier = multipliers[stat.stat.name as StatName];
+                    const barColor =
+                      multiplier === undefined
+                        ? 'bg-blue-500 dark:bg-blue-600'
+                        : multiplier > 1
+                          ? 'bg-green-500 dark:bg-green-600'
+                          : 'bg-red-500 dark:bg-red-600';
+                    return (
+                      <div key={stat.stat.name} className="flex items-center gap-4">
+                        <span className="w-24 text-sm text-gray-700 dark:text-gray-300">
+                          {formatStatName(stat.stat.name)}
+                          {multiplier !== undefined && (multiplier > 1 ? '+' : '−')}:
+                        </span>
+                        <div className="flex-1 bg-zinc-200 dark:bg-zinc-800 rounded-full h-4 overflow-hidden">
+                          <div
+                            className={`h-full ${barColor} rounded-full transition-all`}
+                            style={{ width: `${Math.min((stat.base_stat / 255) * 100, 100)}%` }}
+                          />
+                        </div>
+                        <span className="w-12 text-sm text-gray-800 dark:text-gray-200 text-right">
+                          {stat.base_stat}
+                        </span>
                       </div>
-                      <span className="w-12 text-sm text-gray-800 dark:text-gray-200 text-right">
-                        {stat.base_stat}
-                      </span>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </div>
           </div>
 
+          <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Stat Calculator</h2>
+            <StatCalculator pokemon={pokemon} natures={natures} nature={nature} onNatureChange={setNature} />
+          </div>
+
+          <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Forms</h2>
+            <FormSwitcher pokemon={pokemon} onSelect={selectVariety} />
+          </div>
+
+          <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Species</h2>
+            <SpeciesInfo speciesUrl={pokemon.species.url} />
+          </div>
+
+          <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Evolution</h2>
+            <EvolutionChain speciesUrl={pokemon.species.url} />
+          </div>
+
+          <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Defensive Type Matchups</h2>
+            <TypeMatchups types={types.map((t) => t.type.name)} />
+          </div>
+
           <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
             <div>
               <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Moves</h2>
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-96 overflow-y-auto">
-                {pokemon.moves
-                  .sort((a, b) => a.move.name.localeCompare(b.move.name))
-                  .map((moveData) => {
-                    const moveName = moveData.move.name;
-                    const moveId = moveData.move.url.match(/\/move\/(\d+)\//)?.[1];
-                    const moveType = moveData.version_group_details[0]?.move_learn_method?.name || 'unknown';
-                    
-                    return (
-                      <Link
-                        key={moveData.move.name}
-                        href={`/moves/${moveName}`}
-                        className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors text-sm text-gray-800 dark:text-gray-200"
-                      >
-                        {formatPokemonName(moveName)}
-                      </Link>
-                    );
-                  })}
-              </div>
+              <Learnset moves={pokemon.moves} />
             </div>
           </div>
 
+          {pokemon.held_items.length > 0 && (
+            <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
+              <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Held Items</h2>
+              <HeldItemList
+                entries={pokemon.held_items.map((held) => ({
+                  name: held.item.name,
+                  href: `/items/${held.item.name}`,
+                  sprite: getItemSpriteUrl(held.item.name),
+                  versionDetails: held.version_details,
+                }))}
+              />
+            </div>
+          )}
+
           {locationEncounters.length > 0 && (
             <div className="mt-6 border-t border-zinc-200 dark:border-zinc-800 pt-6">
               <div>
-                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Locations</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-96 overflow-y-auto">
-                  {locationEncounters.map((encounter) => {
-                    const locationAreaName = encounter.location_area.name;
-                    // Extract location name by removing "-area" suffix if present
-                    const locationNameParts = locationAreaName.split('-');
-                    const locationName = locationNameParts.slice(0, -1).join('-');
-                    
-                    return (
-                      <div
-                        key={encounter.location_area.name}
-                        className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800"
-                      >
-                        <Link
-                          href={`/locations/${locationName}`}
-                          className="text-gray-800 dark:text-gray-200 font-medium hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
-                        >
-                          {formatPokemonName(locationAreaName)}
-                        </Link>
-                        {encounter.version_details.length > 0 && (
-                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                            Available in: {encounter.version_details.map(v => formatPokemonName(v.version.name)).join(', ')}
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })}
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Locations</h2>
+                  <VersionSelect versions={versions} value={shownVersion} onChange={setEncounterVersion} />
                 </div>
+                <EncounterTable
+                  entryLabel="Area"
+                  version={shownVersion}
+                  entries={locationEncounters.map((encounter) => {
+                    const areaName = encounter.location_area.name;
+                    const locationName = areaLocations[areaName];
+                    return {
+                      name: areaName,
+                      href: locationName ? `/locations/${locationName}/${areaName}` : undefined,
+                      versionDetails: encounter.version_details,
+                    };
+                  })}
+                />
               </div>
             </div>
           )}
@@ -1,41 +1,21 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { Suspense, useEffect, useState } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { PokemonFilterPanel } from '../components/PokemonFilterPanel';
+import { RetryFailed } from '../components/RetryFailed';
 import { TopNav } from '../components/TopNav';
-
-interface PokemonListEntry {
-  name: string;
-  url: string;
-}
-
-interface PokemonListResponse {
-  results: PokemonListEntry[];
-}
-
-interface PokemonData {
-  id: number;
-  name: string;
-  sprites: {
-    front_default: string | null;
-  };
-  types: Array<{
-    slot: number;
-    type: {
-      name: string;
-      url: string;
-    };
-  }>;
-}
-
-function getPokemonIdFromUrl(url: string): number {
-  const matches = url.match(/\/pokemon\/(\d+)\//);
-  return matches ? parseInt(matches[1], 10) : 0;
-}
-
-function getPokemonSpriteUrl(id: number): string {
-  return `https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/${id}.png`;
-}
+import { getTypeColor } from '../lib/format';
+import {
+  filtersToParams,
+  matchesFilters,
+  parseFilters,
+  sortPokemon,
+  type PokemonFilters,
+} from '../lib/pokemonFilters';
+import { fetchIndex } from '../lib/summaries';
+import type { PokemonSummary } from '../lib/types';
 
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
@@ -48,36 +28,28 @@ function formatPokemonName(name: string): string {
     .join(' ');
 }
 
-function getTypeColor(typeName: string): string {
-  const colors: Record<string, string> = {
-    normal: '#A8A878',
-    fire: '#F08030',
-    water: '#6890F0',
-    electric: '#F8D030',
-    grass: '#78C850',
-    ice: '#98D8D8',
-    fighting: '#C03028',
-    poison: '#A040A0',
-    ground: '#E0C068',
-    flying: '#A890F0',
-    psychic: '#F85888',
-    bug: '#A8B820',
-    rock: '#B8A038',
-    ghost: '#705898',
-    dragon: '#7038F8',
-    dark: '#705848',
-    steel: '#B8B8D0',
-    fairy: '#EE99AC',
-  };
-  return colors[typeName.toLowerCase()] || '#68A090';
+// useSearchParams needs a Suspense boundary to keep the page prerenderable.
+export default function PokemonListPage() {
+  return (
+    <Suspense>
+      <PokemonList />
+    </Suspense>
+  );
 }
 
-export default function PokemonListPage() {
-  const [pokemonList, setPokemonList] = useState<PokemonData[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
+function PokemonList() {
+  const searchParams = useSearchParams();
+  const [pokemonList, setPokemonList] = useState<PokemonSummary[]>([]);
+  // Read from the URL once; afterwards the URL mirrors this state
+  const [filters, setFilters] = useState<PokemonFilters>(() =>
+    parseFilters(new URLSearchParams(searchParams.toString()))
+  );
+  const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [retrying, setRetrying] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -87,30 +59,13 @@ export default function PokemonListPage() {
         setLoading(true);
         setError(null);
 
-        const response = await fetch('https://pokeapi.co/api/v2/pokemon?limit=10000');
-        const data: PokemonListResponse = await response.json();
+        const data = await fetchIndex('pokemon');
+        if (cancelled) return;
 
-        const sorted = [...data.results].sort((a, b) => getPokemonIdFromUrl(a.url) - getPokemonIdFromUrl(b.url));
-        setTotal(sorted.length);
+        setPokemonList(data.results);
+        setTotal(data.count);
+        setFailed(data.failed);
         setLoading(false);
-
-        for (const entry of sorted) {
-          if (cancelled) break;
-          try {
-            const pokemonResponse = await fetch(entry.url);
-            if (!pokemonResponse.ok) continue;
-            const pokemonInfo: PokemonData = await pokemonResponse.json();
-
-            setPokemonList((prev) => {
-              if (prev.some((p) => p.id === pokemonInfo.id)) return prev;
-              const updated = [...prev, pokemonInfo];
-              updated.sort((a, b) => a.id - b.id);
-              return updated;
-            });
-          } catch {
-            // ignore individual failures
-          }
-        }
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load Pokemon');
         setLoading(false);
@@ -123,25 +78,72 @@ export default function PokemonListPage() {
     };
   }, []);
 
-  const filtered = pokemonList.filter((pokemon) => {
-    if (!searchTerm) return true;
-    const search = searchTerm.toLowerCase();
-    return pokemon.name.toLowerCase().includes(search) || pokemon.id.toString().includes(search);
-  });
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      const data = await fetchIndex('pokemon', { retryFailed: true });
+      setPokemonList(data.results);
+      setTotal(data.count);
+      setFailed(data.failed);
+    } catch {
+      // keep the current list; the failed count stays visible for another try
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  function updateFilters(next: PokemonFilters) {
+    setFilters(next);
+    const query = filtersToParams(next).toString();
+    window.history.replaceState(null, '', query ? `/pokemon?${query}` : '/pokemon');
+  }
+
+  const filtered = sortPokemon(
+    pokemonList.filter((pokemon) => matchesFilters(pokemon, filters)),
+    filters
+  );
+  // Listed in order of first appearance, which follows generation order since the index is sorted by id
+  const generations = [...new Set(pokemonList.map((p) => p.generation))];
+  const abilities = [...new Set(pokemonList.flatMap((p) => p.abilities))].sort((a, b) => a.localeCompare(b));
+  const activeFilterCount = filtersToParams({ ...filters, q: '', sort: 'id', descending: false }).size;
 
   return (
     <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
       <TopNav activeTab="pokemon" />
 
       <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
-        <div className="w-full max-w-4xl">
-          <input
-            type="text"
-            placeholder="Search Pokemon by name or number..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-          />
+        <div className="w-full max-w-4xl flex flex-col gap-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Search Pokemon by name or number..."
+              value={filters.q}
+              onChange={(e) => updateFilters({ ...filters, q: e.target.value })}
+              className="w-full p-3 rounded-lg bg-white dark:bg-zinc-900 text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 shadow-lg dark:shadow-zinc-800/50 border border-zinc-200 dark:border-zinc-800 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            />
+            <button
+              type="button"
+              onClick={() => setShowFilters((v) => !v)}
+              className={[
+                'px-4 rounded-lg font-medium whitespace-nowrap shadow-lg dark:shadow-zinc-800/50 transition-colors',
+                showFilters
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white dark:bg-zinc-900 text-gray-700 dark:text-gray-300 hover:bg-zinc-100 dark:hover:bg-zinc-800',
+              ].join(' ')}
+            >
+              Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+            </button>
+          </div>
+          {showFilters && (
+            <div className="rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+              <PokemonFilterPanel
+                filters={filters}
+                onChange={updateFilters}
+                generations={generations}
+                abilities={abilities}
+              />
+            </div>
+          )}
         </div>
 
         <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
@@ -156,13 +158,12 @@ export default function PokemonListPage() {
                 {loading && (
                   <span className="text-sm text-gray-500 dark:text-gray-400">Loading…</span>
                 )}
+                <RetryFailed count={failed.length} retrying={retrying} onRetry={retryFailed} />
               </div>
 
               <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
                 {filtered.map((pokemon) => {
-                  const types = [...pokemon.types].sort((a, b) => a.slot - b.slot);
-                  const type1 = types[0]?.type.name;
-                  const type2 = types[1]?.type.name;
+                  const [type1, type2] = pokemon.types;
                   const type1Color = type1 ? getTypeColor(type1) : '';
                   const type2Color = type2 ? getTypeColor(type2) : '';
 
@@ -185,7 +186,7 @@ export default function PokemonListPage() {
                       >
                         <span className="text-sm text-gray-400 dark:text-gray-500 font-mono">#{pokemon.id}</span>
                         <img
-                          src={pokemon.sprites.front_default || getPokemonSpriteUrl(pokemon.id)}
+                          src={pokemon.sprite}
                           alt={pokemon.name}
                           className="w-16 h-16 object-contain"
                         />
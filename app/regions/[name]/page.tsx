@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { PokedexList } from '../../components/PokedexList';
+import { TopNav } from '../../components/TopNav';
+import { formatName } from '../../lib/format';
+import { getRegion } from '../../lib/pokeapi';
+import type { RegionData } from '../../lib/types';
+
+export default function RegionDetail({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  const [region, setRegion] = useState<RegionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchRegion() {
+      try {
+        setLoading(true);
+        const data = await getRegion(name);
+        if (!cancelled) {
+          setRegion(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load region');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchRegion();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const locations = [...(region?.locations ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="regions" />
+
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading region…</div>
+          ) : error || !region ? (
+            <div className="flex flex-col items-center justify-center gap-4">
+              <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Region not found'}</span>
+              <Link
+                href="/regions"
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                Back to Regions
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">{formatName(region.name)}</h1>
+                <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{region.id}</span>
+                {region.main_generation && (
+                  <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Introduced in{' '}
+                    <Link
+                      href={`/generations/${region.main_generation.name}`}
+                      className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                    >
+                      {formatName(region.main_generation.name)}
+                    </Link>
+                  </div>
+                )}
+              </div>
+
+              {region.version_groups.length > 0 && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Games</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {region.version_groups.map((group) => (
+                      <span
+                        key={group.name}
+                        className="px-3 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm text-gray-800 dark:text-gray-200"
+                      >
+                        {formatName(group.name)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {region.pokedexes.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Pokédexes ({region.pokedexes.length})
+                  </h2>
+                  <PokedexList pokedexes={region.pokedexes} />
+                </div>
+              )}
+
+              {locations.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Locations ({locations.length})
+                  </h2>
+                  <ul className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-96 overflow-y-auto pr-1">
+                    {locations.map((location) => (
+                      <li key={location.name}>
+                        <Link
+                          href={`/locations/${location.name}`}
+                          className="block p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors text-sm text-gray-800 dark:text-gray-200"
+                        >
+                          {formatName(location.name)}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
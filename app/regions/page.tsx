@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { TopNav } from '../components/TopNav';
+import { formatName } from '../lib/format';
+import { listResource } from '../lib/pokeapi';
+import type { NamedAPIResource } from '../lib/types';
+
+export default function RegionsPage() {
+  const [regions, setRegions] = useState<NamedAPIResource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await listResource('region', 100);
+        if (!cancelled) setRegions(data.results);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load regions');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="regions" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6">
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading regions…</div>
+          ) : error ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+              {regions.map((r) => (
+                <li key={r.name}>
+                  <Link
+                    href={`/regions/${r.name}`}
+                    className="block p-4 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors text-center text-gray-800 dark:text-gray-200"
+                  >
+                    {formatName(r.name)}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
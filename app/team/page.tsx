@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { ShowdownPanel } from '../components/ShowdownPanel';
+import { TeamAnalysis } from '../components/TeamAnalysis';
+import { TeamMemberCard } from '../components/TeamMemberCard';
+import { TopNav } from '../components/TopNav';
+import { formatName, toResourceName } from '../lib/format';
+import { getPokemon } from '../lib/pokeapi';
+import { fetchIndex } from '../lib/summaries';
+import {
+  createTeam,
+  MAX_TEAM_SIZE,
+  teamStore,
+  withTeam,
+  type Team,
+  type TeamMember,
+} from '../lib/team';
+import type { MoveSummary, PokemonData, PokemonSummary } from '../lib/types';
+
+const inputClass =
+  'p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+const buttonClass =
+  'px-3 py-2 rounded-lg text-sm font-medium bg-zinc-200 dark:bg-zinc-800 text-gray-700 dark:text-gray-300 hover:bg-zinc-300 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50';
+
+export default function TeamPage() {
+  const store = useSyncExternalStore(teamStore.subscribe, teamStore.getSnapshot, teamStore.getServerSnapshot);
+  const [pokemonIndex, setPokemonIndex] = useState<Map<string, PokemonSummary>>(new Map());
+  const [moveIndex, setMoveIndex] = useState<Map<string, MoveSummary>>(new Map());
+  const [pokemonData, setPokemonData] = useState<Record<string, PokemonData>>({});
+  const [newMember, setNewMember] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchIndex('pokemon'), fetchIndex('moves')])
+      .then(([pokemon, moves]) => {
+        if (cancelled) return;
+        setPokemonIndex(new Map(pokemon.results.map((p) => [p.name, p])));
+        setMoveIndex(new Map(moves.results.map((m) => [m.name, m])));
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load Pokemon and moves');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const team = store?.teams.find((t) => t.id === store.activeId) ?? null;
+  const memberKey = (team?.members ?? []).map((m) => m.pokemon).join(',');
+
+  // Full Pokemon data is only needed for the learnsets the move pickers offer
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const name of new Set(memberKey.split(',').filter(Boolean))) {
+      getPokemon(name)
+        .then((data) => {
+          if (!cancelled) setPokemonData((prev) => (prev[name] ? prev : { ...prev, [name]: data }));
+        })
+        .catch(() => {
+          // the move pickers stay disabled for this member
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [memberKey]);
+
+  function updateTeam(next: Team) {
+    if (store) teamStore.set(withTeam(store, next));
+  }
+
+  function addTeam() {
+    if (!store) return;
+    const created = createTeam(`Team ${store.teams.length + 1}`);
+    teamStore.set({ teams: [...store.teams, created], activeId: created.id });
+  }
+
+  function importTeam(members: TeamMember[]) {
+    if (!store) return;
+    const created = createTeam(`Imported team ${store.teams.length + 1}`, members);
+    teamStore.set({ teams: [...store.teams, created], activeId: created.id });
+  }
+
+  function deleteTeam() {
+    if (!store || !team) return;
+    const remaining = store.teams.filter((t) => t.id !== team.id);
+    const teams = remaining.length > 0 ? remaining : [createTeam('Team 1')];
+    teamStore.set({ teams, activeId: teams[0].id });
+  }
+
+  function addMember() {
+    const name = toResourceName(newMember);
+    if (!team || !pokemonIndex.has(name) || team.members.length >= MAX_TEAM_SIZE) return;
+    updateTeam({ ...team, members: [...team.members, { pokemon: name, moves: [] }] });
+    setNewMember('');
+  }
+
+  function updateMember(index: number, member: TeamMember) {
+    if (team) updateTeam({ ...team, members: team.members.map((m, i) => (i === index ? member : m)) });
+  }
+
+  function removeMember(index: number) {
+    if (team) updateTeam({ ...team, members: team.members.filter((_, i) => i !== index) });
+  }
+
+  const analyzed = (team?.members ?? []).map((m) => ({
+    name: m.pokemon,
+    types: pokemonIndex.get(m.pokemon)?.types ?? pokemonData[m.pokemon]?.types.map((t) => t.type.name) ?? [],
+  }));
+  const attackTypes = [
+    ...new Set(
+      (team?.members ?? [])
+        .flatMap((m) => m.moves)
+        .map((move) => moveIndex.get(move))
+        .filter((move): move is MoveSummary => !!move && move.damageClass !== 'status')
+        .map((move) => move.type)
+    ),
+  ];
+  const newMemberValid = pokemonIndex.has(toResourceName(newMember));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="team" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          {!store || !team ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading teams…</div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={team.id}
+                  onChange={(e) => teamStore.set({ ...store, activeId: e.target.value })}
+                  className={inputClass}
+                >
+                  {store.teams.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  aria-label="Team name"
+                  value={team.name}
+                  onChange={(e) => updateTeam({ ...team, name: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <button type="button" onClick={addTeam} className={buttonClass}>
+                  New team
+                </button>
+                <button type="button" onClick={deleteTeam} className={buttonClass}>
+                  Delete team
+                </button>
+              </div>
+
+              {error && <div className="text-sm text-gray-600 dark:text-gray-400">Error: {error}</div>}
+
+              <div className="flex flex-col gap-2">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+                  Members ({team.members.length}/{MAX_TEAM_SIZE})
+                </h2>
+                {team.members.length < MAX_TEAM_SIZE && (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      addMember();
+                    }}
+                  >
+                    <input
+                      type="text"
+                      list="team-pokemon"
+                      placeholder="Add a Pokemon…"
+                      value={newMember}
+                      onChange={(e) => setNewMember(e.target.value)}
+                      className={`${inputClass} flex-1 min-w-0`}
+                    />
+                    <datalist id="team-pokemon">
+                      {[...pokemonIndex.keys()].map((name) => (
+                        <option key={name} value={name}>
+                          {formatName(name)}
+                        </option>
+                      ))}
+                    </datalist>
+                    <button type="submit" disabled={!newMemberValid} className={buttonClass}>
+                      Add
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              {team.members.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {team.members.map((member, i) => (
+                    <TeamMemberCard
+                      key={`${member.pokemon}-${i}`}
+                      member={member}
+                      summary={pokemonIndex.get(member.pokemon)}
+                      pokemon={pokemonData[member.pokemon]}
+                      moves={moveIndex}
+                      onChange={(next) => updateMember(i, next)}
+                      onRemove={() => removeMember(i)}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500 dark:text-gray-400">This team is empty.</div>
+              )}
+
+              {team.members.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <TeamAnalysis members={analyzed} attackTypes={attackTypes} />
+                </div>
+              )}
+
+              <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                <ShowdownPanel members={team.members} onImport={importTeam} />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { PokemonGrid } from '../../components/PokemonGrid';
+import { TopNav } from '../../components/TopNav';
+import { TypeBadge } from '../../components/TypeBadge';
+import { formatName, getTypeColor } from '../../lib/format';
+import { getType } from '../../lib/pokeapi';
+import type { NamedAPIResource, TypeData } from '../../lib/types';
+
+function RelationRow({ label, types }: { label: string; types: NamedAPIResource[] }) {
+  return (
+    <div className="flex items-start gap-4">
+      <span className="w-40 pt-1 text-sm text-gray-500 dark:text-gray-400">{label}</span>
+      <div className="flex-1 flex flex-wrap gap-2">
+        {types.length > 0 ? (
+          types.map((t) => <TypeBadge key={t.name} type={t.name} />)
+        ) : (
+          <span className="pt-1 text-sm text-gray-400 dark:text-gray-500">None</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TypeDetailPage({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  const [type, setType] = useState<TypeData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchType() {
+      try {
+        setLoading(true);
+        const data = await getType(name);
+        if (!cancelled) {
+          setType(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load type');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchType();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const borderStyle: React.CSSProperties = {
+    borderLeftWidth: '10px',
+    borderLeftColor: getTypeColor(type?.name ?? name),
+  };
+
+  const pokemon = (type?.pokemon ?? []).map((p) => p.pokemon);
+  const moves = [...(type?.moves ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="types" />
+
+      <div className="flex flex-1 items-center justify-center p-4">
+        <div
+          className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6"
+          style={borderStyle}
+        >
+          {loading ? (
+            <div className="text-center text-gray-600 dark:text-gray-400">Loading type…</div>
+          ) : error || !type ? (
+            <div className="flex flex-col items-center justify-center gap-4">
+              <span className="text-gray-600 dark:text-gray-400">Error: {error || 'Type not found'}</span>
+              <Link
+                href="/types"
+                className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 underline"
+              >
+                Back to Types
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-2">{formatName(type.name)}</h1>
+                <span className="text-lg text-gray-400 dark:text-gray-500 font-mono">ID: #{type.id}</span>
+                <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Introduced in {formatName(type.generation.name)}
+                  {type.move_damage_class && <> · {formatName(type.move_damage_class.name)} before Gen IV</>}
+                </div>
+              </div>
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Offense</h2>
+                <div className="flex flex-col gap-2">
+                  <RelationRow label="Super effective (2x)" types={type.damage_relations.double_damage_to} />
+                  <RelationRow label="Not very effective (½x)" types={type.damage_relations.half_damage_to} />
+                  <RelationRow label="No effect (0x)" types={type.damage_relations.no_damage_to} />
+                </div>
+              </div>
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Defense</h2>
+                <div className="flex flex-col gap-2">
+                  <RelationRow label="Weak to (2x)" types={type.damage_relations.double_damage_from} />
+                  <RelationRow label="Resists (½x)" types={type.damage_relations.half_damage_from} />
+                  <RelationRow label="Immune to (0x)" types={type.damage_relations.no_damage_from} />
+                </div>
+              </div>
+
+              {pokemon.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Pokemon ({pokemon.length})
+                  </h2>
+                  <PokemonGrid pokemon={pokemon} />
+                </div>
+              )}
+
+              {moves.length > 0 && (
+                <div className="border-t border-zinc-200 dark:border-zinc-800 pt-6">
+                  <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                    Moves ({moves.length})
+                  </h2>
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-96 overflow-y-auto pr-1">
+                    {moves.map((move) => (
+                      <Link
+                        key={move.name}
+                        href={`/moves/${move.name}`}
+                        className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors text-sm text-gray-800 dark:text-gray-200 text-center"
+                      >
+                        {formatName(move.name)}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
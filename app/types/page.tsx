@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { TopNav } from '../components/TopNav';
+import { formatName, getTypeColor } from '../lib/format';
+import { getType } from '../lib/pokeapi';
+import { attackMultiplier, formatMultiplier, TYPE_NAMES } from '../lib/typeChart';
+import type { TypeData } from '../lib/types';
+
+function cellClass(multiplier: number): string {
+  if (multiplier === 0) return 'bg-zinc-800 text-white dark:bg-black';
+  if (multiplier > 1) return 'bg-green-500 text-white';
+  if (multiplier < 1) return 'bg-red-500 text-white';
+  return 'text-gray-400 dark:text-gray-600';
+}
+
+export default function TypesPage() {
+  const [types, setTypes] = useState<TypeData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await Promise.all(TYPE_NAMES.map((t) => getType(t)));
+        if (!cancelled) setTypes(data);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load types');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
+      <TopNav activeTab="types" />
+
+      <div className="flex flex-1 flex-col items-center justify-start p-4 pb-8 gap-4">
+        <div className="w-full max-w-4xl rounded-2xl bg-white dark:bg-zinc-900 shadow-lg dark:shadow-zinc-800/50 p-6 flex flex-col gap-6">
+          <ul className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+            {TYPE_NAMES.map((type) => (
+              <li key={type}>
+                <Link
+                  href={`/types/${type}`}
+                  className="block p-2 rounded-lg text-center text-sm text-white font-medium hover:opacity-80 transition-opacity"
+                  style={{ backgroundColor: getTypeColor(type) }}
+                >
+                  {formatName(type)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Type Chart</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Rows are the attacking type, columns the defending type.
+            </p>
+            {loading ? (
+              <div className="text-center text-gray-600 dark:text-gray-400">Loading type chart…</div>
+            ) : error ? (
+              <div className="text-center text-gray-600 dark:text-gray-400">Error: {error}</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="border-collapse text-xs">
+                  <thead>
+                    <tr>
+                      <th className="p-1 text-gray-500 dark:text-gray-400 font-normal">Atk \ Def</th>
+                      {types.map((defender) => (
+                        <th key={defender.name} className="p-0.5">
+                          <Link
+                            href={`/types/${defender.name}`}
+                            title={formatName(defender.name)}
+                            className="block w-8 py-1 rounded text-white font-medium text-center"
+                            style={{ backgroundColor: getTypeColor(defender.name) }}
+                          >
+                            {formatName(defender.name).slice(0, 3)}
+                          </Link>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {TYPE_NAMES.map((attacking) => (
+                      <tr key={attacking}>
+                        <th className="p-0.5">
+                          <Link
+                            href={`/types/${attacking}`}
+                            className="block px-2 py-1 rounded text-white font-medium text-left"
+                            style={{ backgroundColor: getTypeColor(attacking) }}
+                          >
+                            {formatName(attacking)}
+                          </Link>
+                        </th>
+                        {types.map((defender) => {
+                          const multiplier = attackMultiplier(attacking, defender);
+                          return (
+                            <td
+                              key={defender.name}
+                              title={`${formatName(attacking)} → ${formatName(defender.name)}: ${formatMultiplier(multiplier)}`}
+                              className={`p-0.5 w-8 h-7 text-center border border-zinc-200 dark:border-zinc-800 ${cellClass(multiplier)}`}
+                            >
+                              {multiplier === 1 ? '' : formatMultiplier(multiplier).replace('x', '')}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}